@@ -1,82 +1,514 @@
 
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { AppStatus, TranscriptionEntry } from './types';
-import { decode, decodeAudioData, encode } from './utils/audio';
-
-const HOSPITAL_NAME = "Canada Care Hospital";
-
-const SYSTEM_INSTRUCTION = `
-You are a professional, polite, and calm hospital receptionist for ${HOSPITAL_NAME} in Canada.
-
-====================
-SPEECH STYLE (MANDATORY)
-====================
-- Speak strictly in Canadian English (en-CA).
-- Sound like a professional hospital receptionist in Canada.
-- Use neutral North American pronunciation with distinct Canadian intonation.
-- Tone: Polite, warm, and helpful.
-- Use Canadian phrasing: "How can I help you today?", "Pardon me?", "One moment, please", "Thank you kindly", "Sorry about that".
-
-====================
-PACE & STABILITY (CRITICAL)
-====================
-- HUMAN PACE: Respond naturally and promptly. 
-- TURN-TAKING: Wait for approximately 1.0 to 1.5 seconds of silence before responding. Do not wait for 5+ seconds.
-- BE CONCISE: Keep your turns short (1-2 sentences) to maintain a natural "back-and-forth" flow. 
-- Do not let the conversation drag; if the patient is silent, offer help or ask if they are still there after a natural pause.
-
-====================
-PRIVACY & BOOKING
-====================
-- Sequence: Name -> Department (General, Cardiology, Orthopedics, Pediatrics) -> Date -> Time -> Phone number.
-- Summarize and confirm all details clearly before finishing the call.
-- Never ask for credit card numbers or insurance details.
-- Never give medical advice.
-`;
-
-const App: React.FC = () => {
+import { Content, Modality, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import AppointmentChangeCard from './components/AppointmentChangeCard';
+import AppointmentDraftCard from './components/AppointmentDraftCard';
+import CallHistoryPanel from './components/CallHistoryPanel';
+import ConsentStatus from './components/ConsentStatus';
+import ChatComposer from './components/ChatComposer';
+import ExportMenu from './components/ExportMenu';
+import IntakeCard from './components/IntakeCard';
+import LevelMeter from './components/LevelMeter';
+import MetricsDashboard from './components/MetricsDashboard';
+import SettingsConsole from './components/SettingsConsole';
+import StaffAlertBanner from './components/StaffAlertBanner';
+import StaffUnlockForm from './components/StaffUnlockForm';
+import TranscriptBubble from './components/TranscriptBubble';
+import { AgentPreset, Appointment, AppointmentChange, AppointmentDraft, AppStatus, AutoHangupReason, CallbackRequest, CallLimitSettings, CallRecord, ConsentDecision, EscalationEvent, EscalationSource, ExportPrivacy, HospitalProfile, InputMode, IntakeResponse, Language, RecordingConsent, RedFlagCategory, ReplyMode, TranscriptionEntry } from './types';
+import { buildActivityDetection, getActivePreset } from './utils/agentPresets';
+import { encode } from './utils/audio';
+import { createLevelMeter, LevelMeter as AudioLevelMeter, pcmRms } from './utils/audioLevels';
+import { CAPTURE_MIME_TYPE, MicCapture, startMicCapture } from './utils/micCapture';
+import { buildReseedTurns, getReconnectDelay, isCleanClose, MAX_RECONNECT_ATTEMPTS } from './utils/reconnect';
+import { CallerVerification, CHANGE_FUNCTION_DECLARATIONS, createCallerVerification, handleAppointmentChangeCall, isAppointmentChangeCall } from './utils/appointmentChangeTools';
+import { applyDraftUpdate, DRAFT_FUNCTION_DECLARATION, draftFromAppointment, handleDraftCall } from './utils/appointmentDraft';
+import { BOOKING_FUNCTION_DECLARATIONS, CallHold, handleBookingCall } from './utils/bookingTools';
+import { CALLBACK_FUNCTION_DECLARATION, handleCallbackCall } from './utils/callbackTools';
+import { exportCall, ExportFormat } from './utils/callExport';
+import { CallRecorder, createCallRecorder, getRecordingSettings, RecordingResult } from './utils/callRecorder';
+import { purgeExpiredRecordings, saveCall } from './utils/callHistory';
+import { createLiveCallMetrics, LiveCallMetrics, markAgentReply, markPatientSpeech, markPatientTurnEnd, summarizeCallMetrics } from './utils/callMetrics';
+import { buildDurationWarningTurns, buildGoodbyeTurns, buildStillThereTurns, createSilenceTracker, getCallLimits, GOODBYE_TIMEOUT_MS, SilenceTracker, SPEECH_RMS } from './utils/callLimits';
+import { CONSENT_FUNCTION_DECLARATION, getConsentRequired, handleConsentCall, initialConsent, mayStoreCallContent } from './utils/consent';
+import { buildUrgentTurns, detectRedFlag, ESCALATION_FUNCTION_DECLARATIONS, getUrgentScript, handleEscalationCall, isEscalationCall, RESUME_AGENT_TURNS } from './utils/escalation';
+import { getDepartmentLabel } from './utils/hospitalProfile';
+import { HOLD_END_TURNS, HOLD_START_TURNS, HoldAudio, startHoldAudio } from './utils/hold';
+import { handleIntakeCall, INTAKE_FUNCTION_DECLARATION, intakeBookingError, upsertIntake } from './utils/intakeForms';
+import { getOpeningHours, getSiteClock, getSiteStatus, withOpeningHours } from './utils/hours';
+import { LiveSession, LiveTransport } from './utils/liveTransport';
+import { createLiveTurns, LiveTurns } from './utils/liveTurns';
+import { DEFAULT_LANGUAGE, detectLanguage, format, getStoredLanguageMode, getStrings, LanguageMode, LANGUAGES, MessageKey, setStoredLanguageMode } from './utils/i18n';
+import { logError, setLogRedactor } from './utils/log';
+import { createCallRedactor, getMaskPhi, redactDraft, setMaskPhi } from './utils/redaction';
+import { createLocalScheduleStore, getScheduleStore, parseSlotId } from './utils/scheduleStore';
+import { STAFF_UNLOCK_MS, verifyStaffPin } from './utils/staffAccess';
+import { buildSystemInstruction, getSpeechConfig } from './utils/systemInstruction';
+
+interface AppProps {
+  profile: HospitalProfile;
+  transport: LiveTransport;
+}
+
+const App: React.FC<AppProps> = ({ profile, transport }) => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [isProcessing, setIsProcessing] = useState(false);
   const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [captions, setCaptions] = useState({ user: '', agent: '' });
   const [isMuted, setIsMuted] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [hasAudioData, setHasAudioData] = useState(false);
+  const [isPushToTalk, setIsPushToTalk] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isOnHold, setIsOnHold] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<MessageKey | null>(null);
+  const [lastCall, setLastCall] = useState<CallRecord | null>(null);
+  const [consent, setConsent] = useState<RecordingConsent | null>(null);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [changes, setChanges] = useState<AppointmentChange[]>([]);
+  const [callbacks, setCallbacks] = useState<CallbackRequest[]>([]);
+  const [intakes, setIntakes] = useState<IntakeResponse[]>([]);
+  const [siteStatus, setSiteStatus] = useState(() => getSiteStatus(profile));
+  const [isAfterHours, setIsAfterHours] = useState(false);
+  const [draft, setDraft] = useState<AppointmentDraft>({});
+  const [escalations, setEscalations] = useState<EscalationEvent[]>([]);
+  const [acknowledgedAlerts, setAcknowledgedAlerts] = useState(0);
+  const [isTransferred, setIsTransferred] = useState(false);
+  const [meters, setMeters] = useState<{ mic: AudioLevelMeter; agent: AudioLevelMeter } | null>(null);
+  // Shown once the caller has been warned that the call is about to reach its time limit.
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [autoHangup, setAutoHangup] = useState<AutoHangupReason | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [replyMode, setReplyMode] = useState<ReplyMode>('audio');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [maskPhiSetting, setMaskPhiState] = useState(getMaskPhi);
+  const [isStaffUnlocked, setIsStaffUnlocked] = useState(false);
+  const [isMaskUnlockOpen, setIsMaskUnlockOpen] = useState(false);
+  // Patient details only show unmasked to unlocked staff; locking masks them again.
+  const maskPhi = maskPhiSetting || !isStaffUnlocked;
+  const [languageMode, setLanguageMode] = useState<LanguageMode>(getStoredLanguageMode);
+  const [language, setLanguage] = useState<Language>(() => {
+    const mode = getStoredLanguageMode();
+    return mode === 'auto' ? DEFAULT_LANGUAGE : mode;
+  });
+  const strings = getStrings(language);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const isClosingRef = useRef(false);
+
+  // Reconnect state: each Live session gets a generation so callbacks from a
+  // replaced session are ignored.
+  const sessionGenerationRef = useRef(0);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Ends the call if the goodbye after an automatic hang-up never finishes playing.
+  const hangupTimerRef = useRef<number | null>(null);
+  const levelMetersRef = useRef<{ mic: AudioLevelMeter; agent: AudioLevelMeter } | null>(null);
+  const transcriptionsRef = useRef<TranscriptionEntry[]>([]);
+
+  // The call being recorded into history; cleared once it has been saved.
+  const callRef = useRef<{
+    id: string;
+    startedAt: Date;
+    endedAt?: Date;
+    failed?: boolean;
+    language: Language;
+    languageDetected: boolean;
+    appointments: Appointment[];
+    changes: AppointmentChange[];
+    verification: CallerVerification;
+    /** Set when the call came in while the hospital was closed. */
+    afterHours: boolean;
+    callbacks: CallbackRequest[];
+    intakes: IntakeResponse[];
+    hold: CallHold;
+    draft: AppointmentDraft;
+    escalations: EscalationEvent[];
+    recordingStartedAt?: Date;
+    consent: RecordingConsent;
+    limits: CallLimitSettings;
+    silence: SilenceTracker;
+    /** When the silence the caller was asked about began; cleared once they respond. */
+    stillThereSince: number | null;
+    durationWarned: boolean;
+    autoHangup?: AutoHangupReason;
+    metrics: LiveCallMetrics;
+    /** Read once at the start so reconnects keep the same configuration. */
+    preset: AgentPreset;
+  } | null>(null);
+  const languageModeRef = useRef(languageMode);
+  // Set while a human is taking over: agent audio is dropped and the mic is not sent.
+  const transferredRef = useRef(false);
+  // Mic gating is read from the capture callback, so it lives in refs.
+  const isMutedRef = useRef(false);
+  const pushToTalkRef = useRef(false);
+  const isTalkingRef = useRef(false);
+  const onHoldRef = useRef(false);
+  const holdAudioRef = useRef<HoldAudio | null>(null);
+  const inputModeRef = useRef(inputMode);
+  const replyModeRef = useRef(replyMode);
   
   // Audio Recording Refs
-  const recorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
-  const mixerRef = useRef<MediaStreamAudioDestinationNode | null>(null);
-  const audioUrlRef = useRef<string | null>(null);
+  const recorderRef = useRef<CallRecorder | null>(null);
 
   // Persistent nodes
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorNodeRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const micToMixerNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Between the mic and the recording; closed while the mic is.
+  const micGateRef = useRef<GainNode | null>(null);
   
-  const transcriptionBufferRef = useRef({ user: '', agent: '' });
+  const scheduleStoreRef = useRef(withOpeningHours(
+    getScheduleStore(() => createLocalScheduleStore({
+      departments: profile.departments,
+      hoursFor: (department, date) => getOpeningHours(profile, department, date),
+      timeZone: profile.timeZone,
+    })),
+    profile,
+  ));
+
+  // Playback, captions and transcript of the current call.
+  const turnsRef = useRef<LiveTurns | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => {
+    purgeExpiredRecordings()
+      .then(purged => { if (purged > 0) setHistoryRefreshKey(k => k + 1); })
+      .catch(e => logError("Recording Retention Purge Failed:", e));
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setSiteStatus(getSiteStatus(profile)), 60_000);
+    return () => clearInterval(timer);
+  }, [profile]);
+
+  useEffect(() => {
+    if (!isStaffUnlocked) return;
+    const timer = window.setTimeout(() => setIsStaffUnlocked(false), STAFF_UNLOCK_MS);
+    return () => clearTimeout(timer);
+  }, [isStaffUnlocked]);
+
+  // One redactor for the call on screen, shared by on-screen masking and the console.
+  const redactor = useMemo(
+    () => createCallRedactor(profile, { transcriptions, draft, appointments, changes, callbacks, intakes }, strings),
+    [profile, transcriptions, draft, appointments, changes, callbacks, intakes, strings],
+  );
+  useEffect(() => setLogRedactor(redactor), [redactor]);
+  const show = (text: string) => (maskPhi ? redactor.redact(text) : text);
+
+  useEffect(() => {
+    transcriptionsRef.current = transcriptions;
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [transcriptions]);
+  }, [transcriptions, captions]);
 
-  const handleStop = useCallback((errorOccurred: boolean = false) => {
-    if (isClosingRef.current) return;
-    isClosingRef.current = true;
+  const updateDraft = (update: (current: AppointmentDraft) => AppointmentDraft) => {
+    const call = callRef.current;
+    if (!call) return;
+    call.draft = update(call.draft);
+    setDraft(call.draft);
+  };
 
-    setStatus(errorOccurred ? AppStatus.ERROR : AppStatus.IDLE);
+  const callOffsetMs = (at: number = Date.now()) => (callRef.current ? at - callRef.current.startedAt.getTime() : 0);
+
+  /** Plays, captions and transcribes one call, feeding the screen, the recording and the metrics. */
+  const createCallTurns = (): LiveTurns => {
+    const turns = createLiveTurns({
+      offsetMs: callOffsetMs,
+      getContext: () => outputAudioContextRef.current,
+      canHearAgent: () => !transferredRef.current && !onHoldRef.current,
+      playsAudio: () => replyModeRef.current === 'audio',
+      onCaptions: setCaptions,
+      onTranscript: transcript => {
+        transcriptionsRef.current = transcript;
+        setTranscriptions(transcript);
+      },
+      onAgentAudio: (source, pcm, startTime) => {
+        setIsProcessing(false);
+        if (levelMetersRef.current) source.connect(levelMetersRef.current.agent.input);
+        if (recorderRef.current) {
+          source.connect(recorderRef.current.agentInput);
+          recorderRef.current.addAgentPcm(pcm, startTime);
+        }
+      },
+      onAgentReply: startMs => {
+        if (callRef.current) markAgentReply(callRef.current.metrics, startMs);
+      },
+      onPlaybackStopped: time => recorderRef.current?.truncateAgent(time),
+      onCallerSpeech: turnSoFar => {
+        setIsProcessing(true);
+        noteCallerActivity();
+
+        // Check the turn so far on every chunk so the urgent message is not
+        // held back until the caller stops talking.
+        const redFlag = detectRedFlag(turnSoFar);
+        const script = redFlag && raiseRedFlag(redFlag.category, 'transcript', turnSoFar.trim());
+        if (redFlag && script && !transferredRef.current) {
+          turns.stopPlayback();
+          sessionPromiseRef.current?.then(session => {
+            if (!isClosingRef.current && session) session.sendClientContent({ turns: buildUrgentTurns(redFlag.category, script), turnComplete: true });
+          }).catch(() => {});
+        }
+      },
+      onAgentSpeech: () => callRef.current?.silence.markActivity(),
+      onInterrupted: () => {
+        if (callRef.current) callRef.current.metrics.interruptions++;
+        setIsProcessing(false);
+      },
+      onTurnComplete: userEntry => {
+        const call = callRef.current;
+        if (call) markPatientTurnEnd(call.metrics);
+        if (userEntry && call && languageModeRef.current === 'auto' && !call.languageDetected) {
+          const detected = detectLanguage(userEntry.text);
+          if (detected) {
+            call.language = detected;
+            call.languageDetected = true;
+            setLanguage(detected);
+          }
+        }
+        setIsProcessing(false);
+
+        // After an automatic hang-up, end the call once the goodbye has played out.
+        if (call?.autoHangup && hangupTimerRef.current !== null) {
+          clearTimeout(hangupTimerRef.current);
+          hangupTimerRef.current = window.setTimeout(() => handleStop(), turns.playoutMs() + 500);
+        }
+      },
+    });
+    return turns;
+  };
+
+  const logEscalation = (event: Omit<EscalationEvent, 'at'>) => {
+    const call = callRef.current;
+    if (!call) return;
+    call.escalations.push({ ...event, at: new Date() });
+    setEscalations([...call.escalations]);
+  };
+
+  /**
+   * Logs a red flag once per category and returns the urgent script for the
+   * caller's language, or null if that emergency was already raised.
+   */
+  const raiseRedFlag = (category: RedFlagCategory, source: EscalationSource, detail: string): string | null => {
+    const call = callRef.current;
+    if (!call || call.escalations.some(e => e.kind === 'red_flag' && e.category === category)) return null;
+    logEscalation({ kind: 'red_flag', category, source, detail });
+    return getUrgentScript(category, getStrings(call.language));
+  };
+
+  /**
+   * Pauses the agent for a human takeover. The agent finishes its handoff
+   * sentence; an operator transfer cuts it off immediately.
+   */
+  const transferToStaff = (source: EscalationSource, reason: string) => {
+    if (transferredRef.current || !callRef.current) return;
+    transferredRef.current = true;
+    setIsTransferred(true);
+    logEscalation({ kind: 'transfer', source, detail: reason });
+    if (source === 'operator') turnsRef.current?.stopPlayback();
+  };
+
+  const resumeAgent = () => {
+    if (!transferredRef.current) return;
+    transferredRef.current = false;
+    setIsTransferred(false);
+    sessionPromiseRef.current?.then(session => {
+      if (!isClosingRef.current && session) session.sendClientContent({ turns: RESUME_AGENT_TURNS, turnComplete: true });
+    }).catch(() => {});
+  };
+
+  /** The caller spoke or typed: the silence is over and any "still there?" is answered. */
+  const noteCallerActivity = () => {
+    const call = callRef.current;
+    if (!call) return;
+    call.silence.markActivity();
+    call.stillThereSince = null;
+  };
+
+  /** Whether agent audio is still playing out; mic level then is mostly its echo. */
+  const isAgentPlaying = () => turnsRef.current?.isPlaying() ?? false;
+
+  const sendSystemTurns = (turns: Content[]) => {
+    sessionPromiseRef.current?.then(session => {
+      if (!isClosingRef.current && session) session.sendClientContent({ turns, turnComplete: true });
+    }).catch(() => {});
+  };
+
+  /** Whether mic audio may reach the session and the recording. */
+  const isMicOpen = () => !isMutedRef.current && !onHoldRef.current && (!pushToTalkRef.current || isTalkingRef.current);
+
+  /**
+   * Applies a change to mute, push-to-talk or hold. When the mic closes the
+   * session is told the audio stream has ended, so the caller's turn is
+   * answered rather than left waiting for more speech.
+   */
+  const updateMicGate = (change: () => void) => {
+    const wasOpen = isMicOpen();
+    change();
+    const open = isMicOpen();
+    if (micGateRef.current) micGateRef.current.gain.value = open ? 1 : 0;
+    if (wasOpen && !open) {
+      if (callRef.current) markPatientTurnEnd(callRef.current.metrics);
+      sessionPromiseRef.current?.then(session => {
+        if (!isClosingRef.current && session) session.sendRealtimeInput({ audioStreamEnd: true });
+      }).catch(() => {});
+    }
+  };
+
+  const toggleMute = () => updateMicGate(() => {
+    isMutedRef.current = !isMutedRef.current;
+    setIsMuted(isMutedRef.current);
+  });
+
+  const setTalking = (talking: boolean) => {
+    if (isTalkingRef.current === talking) return;
+    updateMicGate(() => {
+      isTalkingRef.current = talking;
+      setIsTalking(talking);
+    });
+  };
+
+  const togglePushToTalk = () => updateMicGate(() => {
+    pushToTalkRef.current = !pushToTalkRef.current;
+    isTalkingRef.current = false;
+    setIsPushToTalk(pushToTalkRef.current);
+    setIsTalking(false);
+  });
+
+  /** Puts the caller on hold: agent audio stops, the mic is closed and hold music plays locally. */
+  const startHold = () => {
+    if (onHoldRef.current || !callRef.current) return;
+    updateMicGate(() => {
+      onHoldRef.current = true;
+      setIsOnHold(true);
+    });
+    turnsRef.current?.interrupt();
+    sendSystemTurns(HOLD_START_TURNS);
+    if (outputAudioContextRef.current) holdAudioRef.current = startHoldAudio(outputAudioContextRef.current);
+  };
+
+  /** Takes the caller off hold; the same session carries on. */
+  const endHold = () => {
+    if (!onHoldRef.current) return;
+    holdAudioRef.current?.stop();
+    holdAudioRef.current = null;
+    updateMicGate(() => {
+      onHoldRef.current = false;
+      setIsOnHold(false);
+    });
+    sendSystemTurns(HOLD_END_TURNS);
+  };
+
+  // Push-to-talk: hold Space, unless typing in a field. Buttons are not
+  // skipped: the PTT toggle keeps focus after a click, and Space must talk
+  // rather than click it again. preventDefault stops the button activating.
+  useEffect(() => {
+    if (!isPushToTalk) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setTalking(true);
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setTalking(false);
+    };
+    const release = () => setTalking(false);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', release);
+    };
+  }, [isPushToTalk]);
+
+  /** Asks the receptionist to say goodbye, then hangs up once it has, or after a timeout. */
+  const endCallGracefully = (reason: AutoHangupReason) => {
+    const call = callRef.current;
+    if (!call || call.autoHangup) return;
+    call.autoHangup = reason;
+    setAutoHangup(reason);
+    sendSystemTurns(buildGoodbyeTurns(reason));
+    hangupTimerRef.current = window.setTimeout(() => handleStop(), GOODBYE_TIMEOUT_MS);
+  };
+
+  /** Runs every second while connected: silence prompts and the call length limit. */
+  const checkCallLimits = () => {
+    const call = callRef.current;
+    if (!call || call.endedAt || call.autoHangup) return;
+    const now = Date.now();
+    // Agent speech, a human takeover and hold all count as someone on the line.
+    if (isAgentPlaying() || transferredRef.current || onHoldRef.current) call.silence.markActivity(now);
+
+    const { limits } = call;
+    const maxMs = limits.maxCallMinutes * 60_000;
+    const elapsedMs = now - call.startedAt.getTime();
+    if (maxMs > 0) {
+      if (elapsedMs >= maxMs) {
+        endCallGracefully('max_duration');
+        return;
+      }
+      if (elapsedMs >= maxMs - limits.warnBeforeEndSec * 1000) {
+        setSecondsLeft(Math.ceil((maxMs - elapsedMs) / 1000));
+        if (!call.durationWarned) {
+          call.durationWarned = true;
+          sendSystemTurns(buildDurationWarningTurns(Math.max(1, Math.round(limits.warnBeforeEndSec / 60))));
+        }
+      }
+    }
 
+    // The prompt itself is agent speech, so once asked the hang-up is timed
+    // from when the silence began rather than from the last sound.
+    const silentMs = call.silence.currentMs(now);
+    const silentSince = call.stillThereSince ?? now - silentMs;
+    if (limits.hangUpAfterSec > 0 && now - silentSince >= limits.hangUpAfterSec * 1000) {
+      endCallGracefully('silence');
+      return;
+    }
+    if (limits.stillThereAfterSec > 0 && call.stillThereSince === null && silentMs >= limits.stillThereAfterSec * 1000) {
+      call.stillThereSince = silentSince;
+      sendSystemTurns(buildStillThereTurns(limits.stillTherePrompt.trim() || getStrings(call.language).stillTherePrompt));
+    }
+  };
+
+  useEffect(() => {
+    if (status !== AppStatus.CONNECTED) return;
+    const timer = window.setInterval(checkCallLimits, 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  /**
+   * Stores the caller's recording consent. A refusal, including a withdrawal
+   * mid-call, stops the recorder and throws away what it captured.
+   */
+  const recordConsent = (decision: ConsentDecision, source: 'agent' | 'operator') => {
+    const call = callRef.current;
+    if (!call || call.consent.decision === 'not_required' || call.consent.decision === 'refused') return;
+    call.consent = { decision, decidedAt: new Date(), source };
+    setConsent(call.consent);
+
+    if (decision === 'refused' && recorderRef.current) {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      if (recorder.isRecording) recorder.stop().catch(() => {});
+    }
+  };
+
+  const closeSession = () => {
     if (sessionPromiseRef.current) {
       const p = sessionPromiseRef.current;
       sessionPromiseRef.current = null;
@@ -84,36 +516,127 @@ const App: React.FC = () => {
         try { session.close(); } catch(e) {}
       }).catch(() => {});
     }
+  };
+
+  const buildCallRecord = (call: NonNullable<typeof callRef.current>, recording: RecordingResult | null): CallRecord => {
+    const endedAt = call.endedAt ?? new Date();
+    const mayStore = mayStoreCallContent(call.consent);
+    return {
+      id: call.id,
+      siteId: profile.id,
+      startedAt: call.startedAt,
+      endedAt,
+      durationMs: endedAt.getTime() - call.startedAt.getTime(),
+      outcome: call.appointments.length > 0 ? 'booked'
+        : call.changes.length > 0 ? 'changed'
+        : call.callbacks.length > 0 ? 'callback'
+        : call.failed ? 'failed' : 'completed',
+      language: call.language,
+      transcriptions: mayStore ? transcriptionsRef.current : [],
+      appointments: call.appointments,
+      changes: call.changes,
+      callbacks: call.callbacks,
+      intakes: call.intakes,
+      timeZone: profile.timeZone,
+      // Without consent only what happened is kept, not what the caller said.
+      draft: mayStore ? call.draft : {},
+      escalations: mayStore ? call.escalations : call.escalations.map(e => ({ ...e, detail: '' })),
+      recordingOffsetMs: call.recordingStartedAt ? call.recordingStartedAt.getTime() - call.startedAt.getTime() : 0,
+      consent: call.consent,
+      silenceMs: call.silence.totalMs(endedAt.getTime()),
+      ...(call.autoHangup ? { autoHangup: call.autoHangup } : {}),
+      metrics: summarizeCallMetrics(call.metrics, transcriptionsRef.current, call.appointments.length > 0),
+      preset: call.preset,
+      recording: mayStore ? recording?.recording ?? null : null,
+      stems: mayStore ? recording?.stems ?? null : null,
+    };
+  };
 
-    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
-      try { recorderRef.current.stop(); } catch(e) {}
+  const finalizeCall = (recording: RecordingResult | null) => {
+    const call = callRef.current;
+    if (!call) return;
+    callRef.current = null;
+
+    const record = buildCallRecord(call, recording);
+    setLastCall(record);
+    saveCall(record)
+      .then(() => setHistoryRefreshKey(k => k + 1))
+      .catch(e => logError("Call History Save Failed:", e));
+  };
+
+  const handleStop = useCallback((errorOccurred: boolean = false) => {
+    if (isClosingRef.current) return;
+    isClosingRef.current = true;
+
+    setStatus(errorOccurred ? AppStatus.ERROR : AppStatus.IDLE);
+
+    sessionGenerationRef.current++;
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (hangupTimerRef.current !== null) {
+      clearTimeout(hangupTimerRef.current);
+      hangupTimerRef.current = null;
+    }
+    setSecondsLeft(null);
+    resumptionHandleRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+
+    closeSession();
+
+    // Keep whatever was being said when the call ended.
+    turnsRef.current?.flushCaption('user');
+    turnsRef.current?.flushCaption('agent');
+
+    if (callRef.current) {
+      callRef.current.endedAt = new Date();
+      callRef.current.failed = errorOccurred;
     }
 
-    if (processorNodeRef.current) {
-      processorNodeRef.current.disconnect();
-      processorNodeRef.current = null;
+    // The call is saved once the recorder has flushed its final chunks.
+    const recorder = recorderRef.current;
+    if (recorder?.isRecording) {
+      recorder.stop()
+        .then(finalizeCall)
+        .catch(e => {
+          logError("Recording Finalize Failed:", e);
+          finalizeCall(null);
+        });
+    } else {
+      finalizeCall(null);
     }
 
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
     }
 
     if (micToMixerNodeRef.current) {
       micToMixerNodeRef.current.disconnect();
       micToMixerNodeRef.current = null;
     }
+    if (micGateRef.current) {
+      micGateRef.current.disconnect();
+      micGateRef.current = null;
+    }
+
+    holdAudioRef.current?.stop();
+    holdAudioRef.current = null;
+    onHoldRef.current = false;
+    setIsOnHold(false);
+    isTalkingRef.current = false;
+    setIsTalking(false);
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
 
-    activeSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch(e) {}
-    });
-    activeSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    turnsRef.current?.stopPlayback();
+    transferredRef.current = false;
+    setIsTransferred(false);
     
     setIsProcessing(false);
     
@@ -122,199 +645,434 @@ const App: React.FC = () => {
     }, 500);
   }, []);
 
+  const buildLiveConfig = (): LiveConnectConfig => {
+    const recordingConsent = callRef.current?.consent.decision !== 'not_required';
+    const afterHours = callRef.current?.afterHours ?? false;
+    const preset = callRef.current?.preset ?? getActivePreset();
+    return {
+      systemInstruction: buildSystemInstruction(profile, languageModeRef.current, {
+        recordingConsent,
+        afterHours,
+        persona: preset.persona,
+        turnTaking: preset.turnTaking,
+      }),
+      tools: [{
+        functionDeclarations: [
+          ...(afterHours
+            ? [CALLBACK_FUNCTION_DECLARATION]
+            : [
+              ...BOOKING_FUNCTION_DECLARATIONS,
+              ...CHANGE_FUNCTION_DECLARATIONS,
+              DRAFT_FUNCTION_DECLARATION,
+              ...(profile.intakeForms ? [INTAKE_FUNCTION_DECLARATION] : []),
+            ]),
+          ...ESCALATION_FUNCTION_DECLARATIONS,
+          ...(recordingConsent ? [CONSENT_FUNCTION_DECLARATION] : []),
+        ],
+      }],
+      responseModalities: [Modality.AUDIO],
+      speechConfig: getSpeechConfig(languageModeRef.current, preset.voice),
+      realtimeInputConfig: { automaticActivityDetection: buildActivityDetection(preset.vad) },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: resumptionHandleRef.current ? { handle: resumptionHandleRef.current } : {},
+    };
+  };
+
+  /**
+   * Drops the current session and opens a replacement after a backoff. The mic
+   * stream, recorder and transcript keep running throughout. `immediate` is
+   * used for server goAway notices, which are planned handovers rather than
+   * failures and do not count as an attempt.
+   */
+  const scheduleReconnect = (immediate: boolean = false) => {
+    if (isClosingRef.current || reconnectTimerRef.current !== null) return;
+    if (callRef.current) callRef.current.metrics.reconnects++;
+    sessionGenerationRef.current++;
+    closeSession();
+
+    const attempt = immediate ? reconnectAttemptRef.current : reconnectAttemptRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      setErrorMessage('errorCallNotRestored');
+      handleStop(true);
+      return;
+    }
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    setStatus(AppStatus.RECONNECTING);
+
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      if (isClosingRef.current) return;
+      openSession(true);
+    }, immediate ? 0 : getReconnectDelay(attempt));
+  };
+
+  const openSession = (isReconnect: boolean) => {
+    const generation = ++sessionGenerationRef.current;
+    const isCurrent = () => generation === sessionGenerationRef.current && !isClosingRef.current;
+    const resumed = resumptionHandleRef.current !== null;
+    // A socket that opens and is then closed with an error must still count
+    // towards MAX_RECONNECT_ATTEMPTS, so the counter resets on the first
+    // server message (normally setupComplete), not on open.
+    let established = false;
+
+    const sessionPromise = transport.connect({
+      model: (callRef.current?.preset ?? getActivePreset()).model,
+      config: buildLiveConfig(),
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          setStatus(AppStatus.CONNECTED);
+          // Time spent reconnecting is not the caller going quiet.
+          callRef.current?.silence.markActivity();
+          // Keep the typing hint visible; connection errors are resolved by now.
+          setErrorMessage(current => current === 'errorMicTextFallback' ? current : null);
+          const recorder = recorderRef.current;
+          if (recorder && !recorder.isRecording && callRef.current && !callRef.current.recordingStartedAt) {
+            recorder.start();
+            callRef.current.recordingStartedAt = new Date();
+          }
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          if (!established) {
+            established = true;
+            reconnectAttemptRef.current = 0;
+            setReconnectAttempt(0);
+          }
+
+          const resumption = message.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) {
+            resumptionHandleRef.current = resumption.newHandle;
+          }
+
+          if (message.goAway) {
+            scheduleReconnect(true);
+            return;
+          }
+
+          if (message.toolCall?.functionCalls?.length) {
+            callRef.current?.silence.markActivity();
+            const functionResponses = await Promise.all(
+              message.toolCall.functionCalls.map(call => {
+                if (call.name === DRAFT_FUNCTION_DECLARATION.name) {
+                  return handleDraftCall(call, args => updateDraft(current => applyDraftUpdate(current, args)));
+                }
+                if (call.name === CALLBACK_FUNCTION_DECLARATION.name) {
+                  return handleCallbackCall(call, request => {
+                    callRef.current?.callbacks.push(request);
+                    setCallbacks(prev => [...prev, request]);
+                  });
+                }
+                if (call.name === CONSENT_FUNCTION_DECLARATION.name) {
+                  return handleConsentCall(call, decision => recordConsent(decision, 'agent'));
+                }
+                const active = callRef.current;
+                if (call.name === INTAKE_FUNCTION_DECLARATION.name && active) {
+                  return handleIntakeCall(profile, call, active.intakes, intake => {
+                    active.intakes = upsertIntake(active.intakes, intake);
+                    setIntakes(active.intakes);
+                  });
+                }
+                if (isAppointmentChangeCall(call) && active) {
+                  return handleAppointmentChangeCall(scheduleStoreRef.current, call, active.hold, active.verification, getSiteClock(profile.timeZone).date, change => {
+                    active.changes.push(change);
+                    setChanges(prev => [...prev, change]);
+                  });
+                }
+                if (isEscalationCall(call)) {
+                  return handleEscalationCall(call, {
+                    onEmergency: (category, summary) => raiseRedFlag(category, 'agent', summary),
+                    onTransfer: reason => transferToStaff('agent', reason),
+                  });
+                }
+                if (call.name === 'book_appointment' && active) {
+                  const slot = parseSlotId(typeof call.args?.slot_id === 'string' ? call.args.slot_id : '');
+                  const intakeError = slot && intakeBookingError(profile, active.intakes, slot.department);
+                  if (intakeError) return { id: call.id, name: call.name, response: { error: intakeError } };
+                }
+                return handleBookingCall(scheduleStoreRef.current, call, active?.hold ?? {}, appt => {
+                  callRef.current?.appointments.push(appt);
+                  setAppointments(prev => [...prev, appt]);
+                  updateDraft(() => draftFromAppointment(appt));
+                });
+              })
+            );
+            sessionPromiseRef.current?.then(session => {
+              if (!isClosingRef.current && session) session.sendToolResponse({ functionResponses });
+            }).catch(() => {});
+          }
+
+          await turnsRef.current?.receive(message);
+        },
+        onerror: (e: any) => {
+          logError("Session Error Observed:", e);
+          if (!isCurrent()) return;
+          if (callRef.current) callRef.current.metrics.errors++;
+          setErrorMessage('errorReconnecting');
+          scheduleReconnect();
+        },
+        onclose: (e: any) => {
+          if (!isCurrent()) return;
+          if (isCleanClose(e)) {
+            handleStop();
+          } else {
+            scheduleReconnect();
+          }
+        }
+      }
+    });
+
+    sessionPromiseRef.current = sessionPromise;
+
+    sessionPromise.then(session => {
+      // Without a resumption handle the new session has no memory of the call.
+      if (isReconnect && !resumed && isCurrent()) {
+        session.sendClientContent({ turns: buildReseedTurns(transcriptionsRef.current), turnComplete: true });
+      }
+    }).catch((err) => {
+      logError("Session Connect Failed:", err);
+      if (!isCurrent()) return;
+      if (callRef.current) callRef.current.metrics.errors++;
+      if (isReconnect) {
+        scheduleReconnect();
+      } else {
+        setErrorMessage('errorUnreachable');
+        handleStop(true);
+      }
+    });
+  };
+
+  const acquireMic = async (): Promise<MediaStream | null> => {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      logError("Microphone Unavailable:", err);
+      return null;
+    }
+  };
+
+  /** Feeds the mic into the recording and streams it to the session. */
+  const attachMic = async (stream: MediaStream) => {
+    const call = callRef.current;
+    if (!call || call.endedAt || !outputAudioContextRef.current || !audioContextRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    streamRef.current = stream;
+
+    const micSource = outputAudioContextRef.current.createMediaStreamSource(stream);
+    micToMixerNodeRef.current = micSource;
+    const gate = outputAudioContextRef.current.createGain();
+    gate.gain.value = isMicOpen() ? 1 : 0;
+    micSource.connect(gate);
+    micGateRef.current = gate;
+    if (recorderRef.current) gate.connect(recorderRef.current.patientInput);
+    // The meter shows the mic even while it is closed, so the operator can see it is live.
+    if (levelMetersRef.current) micSource.connect(levelMetersRef.current.mic.input);
+
+    const capture = await startMicCapture(audioContextRef.current, stream, {
+      onChunk: (pcm) => {
+        // Muted, on hold or push-to-talk released: nothing is sent or recorded.
+        if (!isMicOpen()) return;
+        recorderRef.current?.addPatientPcm(pcm);
+        if (inputModeRef.current === 'text' || transferredRef.current || isClosingRef.current || !sessionPromiseRef.current) return;
+        if (pcmRms(pcm) >= SPEECH_RMS && !isAgentPlaying()) {
+          noteCallerActivity();
+          markPatientSpeech(call.metrics, callOffsetMs());
+        }
+
+        const pcmBlob = {
+          data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+          mimeType: CAPTURE_MIME_TYPE,
+        };
+
+        sessionPromiseRef.current?.then((session) => {
+          if (!isClosingRef.current && session) {
+            session.sendRealtimeInput({ media: pcmBlob });
+          }
+        }).catch(() => {});
+      },
+    });
+    // The call may have been ended while the worklet module was loading.
+    if (streamRef.current === stream) {
+      micCaptureRef.current = capture;
+    } else {
+      capture.stop();
+    }
+  };
+
+  const changeInputMode = (mode: InputMode) => {
+    inputModeRef.current = mode;
+    setInputMode(mode);
+  };
+
+  /** Switches between speaking and typing, opening the mic on first use. */
+  const handleInputModeChange = async (mode: InputMode) => {
+    const call = callRef.current;
+    if (mode === 'voice' && call && !call.endedAt && !streamRef.current) {
+      const stream = await acquireMic();
+      if (!stream) {
+        setErrorMessage('errorMicTextFallback');
+        return;
+      }
+      changeInputMode(mode);
+      setErrorMessage(null);
+      await attachMic(stream);
+      return;
+    }
+    changeInputMode(mode);
+  };
+
+  const handleReplyModeChange = (mode: ReplyMode) => {
+    replyModeRef.current = mode;
+    setReplyMode(mode);
+    if (mode === 'text') turnsRef.current?.stopPlayback();
+  };
+
+  const sendTypedMessage = (text: string) => {
+    if (!sessionPromiseRef.current || transferredRef.current) return;
+    const offset = callOffsetMs();
+    turnsRef.current?.commitEntry({ type: 'user', text, timestamp: new Date(), startMs: offset, endMs: offset, typed: true });
+    setIsProcessing(true);
+    noteCallerActivity();
+    if (callRef.current) {
+      markPatientSpeech(callRef.current.metrics, offset);
+      markPatientTurnEnd(callRef.current.metrics);
+    }
+    sessionPromiseRef.current.then(session => {
+      if (!isClosingRef.current && session) session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    }).catch(() => {});
+  };
+
   const handleStart = async () => {
     if (isClosingRef.current) return;
     
     try {
       setErrorMessage(null);
-      setHasAudioData(false);
-      if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
-      audioUrlRef.current = null;
-      recordedChunksRef.current = [];
+      setLastCall(null);
+      recorderRef.current = null;
+      turnsRef.current = createCallTurns();
+      transcriptionsRef.current = [];
+      setTranscriptions([]);
+      setCaptions({ user: '', agent: '' });
+      setAppointments([]);
+      setChanges([]);
+      setIntakes([]);
+      setCallbacks([]);
+      setDraft({});
+      setEscalations([]);
+      setAcknowledgedAlerts(0);
+      transferredRef.current = false;
+      setIsTransferred(false);
+      setSecondsLeft(null);
+      setAutoHangup(null);
+      // Auto mode detects each caller afresh rather than keeping the last caller's language.
+      const callLanguage = languageModeRef.current === 'auto' ? DEFAULT_LANGUAGE : languageModeRef.current;
+      setLanguage(callLanguage);
+      // Decided once per call; a call that runs past closing time keeps booking.
+      const openNow = getSiteStatus(profile);
+      setSiteStatus(openNow);
+      setIsAfterHours(!openNow.isOpen);
+      callRef.current = {
+        id: crypto.randomUUID(),
+        startedAt: new Date(),
+        language: callLanguage,
+        languageDetected: languageModeRef.current !== 'auto',
+        appointments: [],
+        changes: [],
+        verification: createCallerVerification(),
+        afterHours: !openNow.isOpen,
+        callbacks: [],
+        intakes: [],
+        hold: {},
+        draft: {},
+        escalations: [],
+        consent: initialConsent(getConsentRequired()),
+        limits: getCallLimits(),
+        silence: createSilenceTracker(),
+        stillThereSince: null,
+        durationWarned: false,
+        metrics: createLiveCallMetrics(),
+        preset: getActivePreset(),
+      };
+      setConsent(callRef.current.consent);
       
       setStatus(AppStatus.CONNECTING);
       
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        // Capture runs at the device's native rate; the worklet resamples to 16 kHz.
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       }
       if (!outputAudioContextRef.current) {
         outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       }
 
+      if (!levelMetersRef.current) {
+        levelMetersRef.current = { mic: createLevelMeter(outputAudioContextRef.current), agent: createLevelMeter(outputAudioContextRef.current) };
+        setMeters(levelMetersRef.current);
+      }
+
       await audioContextRef.current.resume();
       await outputAudioContextRef.current.resume();
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const mixer = outputAudioContextRef.current.createMediaStreamDestination();
-      mixerRef.current = mixer;
-
-      const micSource = outputAudioContextRef.current.createMediaStreamSource(stream);
-      micToMixerNodeRef.current = micSource;
-      micSource.connect(mixer);
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { 
-              prebuiltVoiceConfig: { 
-                voiceName: 'Zephyr'
-              } 
-            }
-          },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {}
-        },
-        callbacks: {
-          onopen: () => {
-            setStatus(AppStatus.CONNECTED);
-            setErrorMessage(null);
-            
-            const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus') 
-              ? 'audio/webm;codecs=opus' 
-              : 'audio/webm';
-
-            const recorder = new MediaRecorder(mixer.stream, { mimeType });
-            recorder.ondataavailable = (e) => {
-              if (e.data.size > 0) recordedChunksRef.current.push(e.data);
-            };
-            recorder.onstop = () => {
-              const blob = new Blob(recordedChunksRef.current, { type: 'audio/webm' });
-              audioUrlRef.current = URL.createObjectURL(blob);
-              setHasAudioData(true);
-            };
-            recorder.start(1000); 
-            recorderRef.current = recorder;
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioPart = message.serverContent?.modelTurn?.parts?.find(p => p.inlineData?.data);
-            const base64Audio = audioPart?.inlineData?.data;
-            
-            if (base64Audio && outputAudioContextRef.current) {
-              setIsProcessing(false);
-              const ctx = outputAudioContextRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const buffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              
-              source.connect(ctx.destination);
-              if (mixerRef.current) {
-                source.connect(mixerRef.current);
-              }
-              
-              source.onended = () => activeSourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              activeSourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsProcessing(false);
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              transcriptionBufferRef.current.user += message.serverContent.inputTranscription.text;
-              setIsProcessing(true);
-            }
-            if (message.serverContent?.outputTranscription) {
-              transcriptionBufferRef.current.agent += message.serverContent.outputTranscription.text;
-            }
-            if (message.serverContent?.turnComplete) {
-              const userText = transcriptionBufferRef.current.user.trim();
-              const agentText = transcriptionBufferRef.current.agent.trim();
-              if (userText) setTranscriptions(prev => [...prev, { type: 'user', text: userText, timestamp: new Date() }]);
-              if (agentText) setTranscriptions(prev => [...prev, { type: 'agent', text: agentText, timestamp: new Date() }]);
-              transcriptionBufferRef.current = { user: '', agent: '' };
-              setIsProcessing(false);
-            }
-          },
-          onerror: (e: any) => {
-            console.error("Session Error Observed:", e);
-            if (isClosingRef.current) return;
-            setErrorMessage("Line unstable. Resetting connection...");
-            handleStop(true);
-          },
-          onclose: (e: any) => {
-            if (isClosingRef.current) return;
-            handleStop();
-          }
-        }
-      });
-      
-      sessionPromiseRef.current = sessionPromise;
+      // Patient and agent are recorded on separate channels from here on.
+      recorderRef.current = createCallRecorder(outputAudioContextRef.current, getRecordingSettings());
 
-      const source = audioContextRef.current!.createMediaStreamSource(stream);
-      const processor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-      sourceNodeRef.current = source;
-      processorNodeRef.current = processor;
+      // Without a mic the call carries on as a typed chat instead of failing.
+      const stream = inputModeRef.current === 'voice' ? await acquireMic() : null;
+      if (inputModeRef.current === 'voice' && !stream) {
+        setErrorMessage('errorMicTextFallback');
+        changeInputMode('text');
+      }
 
-      processor.onaudioprocess = (e) => {
-        if (isMuted || isClosingRef.current || !sessionPromiseRef.current) return;
-        
-        const inputData = e.inputBuffer.getChannelData(0);
-        const l = inputData.length;
-        const int16 = new Int16Array(l);
-        for (let i = 0; i < l; i++) {
-          int16[i] = inputData[i] * 32768;
-        }
-        const pcmBlob = {
-          data: encode(new Uint8Array(int16.buffer)),
-          mimeType: 'audio/pcm;rate=16000',
-        };
-        
-        sessionPromiseRef.current?.then((session) => {
-          if (!isClosingRef.current && session) {
-            session.sendRealtimeInput({ media: pcmBlob });
-          }
-        }).catch(() => {});
-      };
+      openSession(false);
 
-      source.connect(processor);
-      processor.connect(audioContextRef.current!.destination);
+      if (stream) await attachMic(stream);
 
     } catch (err) {
-      console.error("Critical Startup Error:", err);
-      setErrorMessage("System error. Check mic permissions.");
+      logError("Critical Startup Error:", err);
+      callRef.current = null;
+      setErrorMessage('errorMic');
       setStatus(AppStatus.IDLE);
     }
   };
 
-  const downloadTranscript = useCallback(() => {
-    if (transcriptions.length === 0) return;
-    const log = transcriptions
-      .map(t => `[${t.timestamp.toLocaleTimeString()}] ${t.type === 'user' ? 'Patient' : 'Receptionist'}: ${t.text}`)
-      .join('\n\n');
-    const blob = new Blob([log], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `canada-care-transcript-${new Date().getTime()}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [transcriptions]);
-
-  const downloadAudio = useCallback(() => {
-    if (!audioUrlRef.current) return;
-    const link = document.createElement('a');
-    link.href = audioUrlRef.current;
-    link.download = `canada-care-call-${new Date().getTime()}.webm`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, []);
+  /** Exports the call on screen: a snapshot while it is live, otherwise the saved record. */
+  const handleExport = (format: ExportFormat, privacy: ExportPrivacy) => {
+    const record = callRef.current ? buildCallRecord(callRef.current, null) : lastCall;
+    if (!record || (privacy === 'full' && !isStaffUnlocked)) return;
+    const exportRedactor = privacy === 'redacted' ? createCallRedactor(profile, record, getStrings(record.language)) : null;
+    exportCall(record, format, exportRedactor).catch(e => logError("Call Export Failed:", e));
+  };
+
+  const unlockStaff = async (pin: string) => {
+    const accepted = await verifyStaffPin(pin);
+    if (accepted) {
+      setIsStaffUnlocked(true);
+      setIsMaskUnlockOpen(false);
+    }
+    return accepted;
+  };
+
+  const handleMaskPhiChange = (mask: boolean) => {
+    if (!mask && !isStaffUnlocked) {
+      setIsMaskUnlockOpen(true);
+      return;
+    }
+    setMaskPhi(mask);
+    setMaskPhiState(mask);
+  };
+
+  const redFlags = escalations.filter(e => e.kind === 'red_flag');
+
+  const handleLanguageModeChange = (mode: LanguageMode) => {
+    setLanguageMode(mode);
+    languageModeRef.current = mode;
+    setStoredLanguageMode(mode);
+    if (mode !== 'auto') setLanguage(mode);
+  };
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4 md:p-8 bg-slate-100 selection:bg-indigo-100">
@@ -327,36 +1085,77 @@ const App: React.FC = () => {
                 <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20"><path d="M10 2a1 1 0 011 1v1h1a1 1 0 110 2h-1v1a1 1 0 11-2 0V6H8a1 1 0 010-2h1V3a1 1 0 011-1z" /><path d="M4 8a1 1 0 011-1h10a1 1 0 011 1v9a1 1 0 01-1 1H5a1 1 0 01-1-1V8zm2 2v2h2v-2H6zm5 0v2h2v-2h-2zm-5 4v2h2v-2H6zm5 0v2h2v-2h-2z" /></svg>
               </div>
               <div>
-                <h1 className="text-lg font-black text-slate-800 tracking-tight">Canada Care</h1>
-                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">AI Receptionist</p>
+                <h1 className="text-lg font-black text-slate-800 tracking-tight">{profile.shortName}</h1>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{strings.appSubtitle}</p>
               </div>
             </div>
 
             <div className="space-y-3">
-              <button 
-                onClick={downloadTranscript}
+              <ExportMenu
+                strings={strings}
                 disabled={transcriptions.length === 0}
-                className="w-full py-3 bg-indigo-50 text-indigo-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 disabled:opacity-30 transition-all flex items-center justify-center gap-2 border border-indigo-100"
+                audio={lastCall}
+                isStaffUnlocked={isStaffUnlocked}
+                onUnlock={unlockStaff}
+                onExport={handleExport}
+              />
+
+              <button 
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className="w-full py-3 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2 border border-slate-200"
               >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-                Download Log
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                {strings.callHistory}
               </button>
 
               <button 
-                onClick={downloadAudio}
-                disabled={!hasAudioData}
-                className="w-full py-3 bg-emerald-50 text-emerald-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-100 disabled:opacity-30 transition-all flex items-center justify-center gap-2 border border-emerald-100"
+                onClick={() => setIsMetricsOpen(open => !open)}
+                className="w-full py-3 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2 border border-slate-200"
               >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
-                Call Recording
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+                {strings.callMetrics}
               </button>
+
+              <button 
+                onClick={() => setIsSettingsOpen(open => !open)}
+                className="w-full py-3 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2 border border-slate-200"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                {strings.operatorSettings}
+              </button>
+
+              <label className="flex items-center justify-between gap-2 px-1 text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                {strings.maskPhi}
+                <input type="checkbox" checked={maskPhi} onChange={e => handleMaskPhiChange(e.target.checked)} />
+              </label>
+              {isMaskUnlockOpen && !isStaffUnlocked && <StaffUnlockForm strings={strings} onUnlock={unlockStaff} />}
+              {isStaffUnlocked && (
+                <div className="flex items-center justify-between px-1">
+                  <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{strings.staffUnlocked}</span>
+                  <button onClick={() => setIsStaffUnlocked(false)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700">{strings.lock}</button>
+                </div>
+              )}
             </div>
 
             <div className="mt-8 pt-6 border-t border-slate-100">
-              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Units</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.units}</h3>
+                <span
+                  title={siteStatus.clock.timeZone}
+                  className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full border ${siteStatus.isOpen ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}
+                >
+                  {siteStatus.isOpen ? strings.openNow : siteStatus.holiday ? strings[`holiday_${siteStatus.holiday.id}`] : strings.closedNow} · {siteStatus.clock.time}
+                </span>
+              </div>
               <div className="grid grid-cols-2 gap-2">
-                {['General', 'Cardio', 'Ortho', 'Peds'].map(d => (
-                  <span key={d} className="px-3 py-1.5 bg-slate-50 text-slate-500 rounded-xl border border-slate-200 text-[10px] font-bold text-center">{d}</span>
+                {profile.departments.map(d => (
+                  <span
+                    key={d}
+                    title={d}
+                    className={`px-3 py-1.5 rounded-xl border text-[10px] font-bold text-center ${siteStatus.openDepartments.includes(d) ? 'bg-slate-50 text-slate-500 border-slate-200' : 'bg-white text-slate-300 border-slate-100'}`}
+                  >
+                    {getDepartmentLabel(profile, d)}
+                  </span>
                 ))}
               </div>
             </div>
@@ -364,14 +1163,28 @@ const App: React.FC = () => {
 
           <div className="bg-indigo-600 rounded-3xl p-6 shadow-xl text-white flex-1 flex flex-col justify-between overflow-hidden relative mt-auto">
             <div className="z-10">
-              <h3 className="text-sm font-black tracking-tight mb-2 uppercase text-white">en-CA Profile</h3>
-              <p className="text-[11px] text-indigo-100 leading-relaxed font-medium">Professional Canadian Receptionist profile is active. Human-like conversational pace enabled.</p>
+              <h3 className="text-sm font-black tracking-tight mb-2 uppercase text-white">{strings.languageProfile}</h3>
+              <div className="flex gap-1.5 mb-3">
+                {([...LANGUAGES, 'auto'] as LanguageMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => handleLanguageModeChange(mode)}
+                    disabled={status !== AppStatus.IDLE && status !== AppStatus.ERROR}
+                    className={`flex-1 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all disabled:opacity-50 ${
+                      languageMode === mode ? 'bg-white text-indigo-700 border-white' : 'bg-white/10 text-white border-white/10 hover:bg-white/20'
+                    }`}
+                  >
+                    {mode === 'auto' ? strings.languageAuto : mode}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-indigo-100 leading-relaxed font-medium">{languageMode === 'auto' ? strings.languageAutoHint : strings.languageProfileActive}</p>
             </div>
             <div className="bg-white/10 px-4 py-3 rounded-2xl border border-white/5 z-10 backdrop-blur-sm">
-              <span className="text-[9px] font-black uppercase block opacity-60 mb-1 tracking-tighter">Live Status</span>
+              <span className="text-[9px] font-black uppercase block opacity-60 mb-1 tracking-tighter">{strings.liveStatus}</span>
               <div className="flex items-center gap-2.5">
-                <div className={`w-2 h-2 rounded-full animate-pulse ${status === AppStatus.CONNECTED ? 'bg-green-400' : 'bg-slate-300'}`} />
-                <span className="text-[10px] font-black uppercase tracking-widest">{status}</span>
+                <div className={`w-2 h-2 rounded-full animate-pulse ${status === AppStatus.CONNECTED ? 'bg-green-400' : status === AppStatus.RECONNECTING ? 'bg-amber-300' : 'bg-slate-300'}`} />
+                <span className="text-[10px] font-black uppercase tracking-widest">{strings[`status_${status}`]}</span>
               </div>
             </div>
             <div className="absolute -bottom-10 -right-10 w-32 h-32 bg-white/5 rounded-full blur-3xl" />
@@ -379,61 +1192,177 @@ const App: React.FC = () => {
         </aside>
 
         <main className="lg:col-span-3 bg-white rounded-3xl shadow-xl border border-slate-200 flex flex-col overflow-hidden relative">
-          
+          {isHistoryOpen && (
+            <CallHistoryPanel
+              profile={profile}
+              language={language}
+              refreshKey={historyRefreshKey}
+              maskPhi={maskPhi}
+              isStaffUnlocked={isStaffUnlocked}
+              onUnlock={unlockStaff}
+              onClose={() => setIsHistoryOpen(false)}
+            />
+          )}
+          {isMetricsOpen && (
+            <MetricsDashboard
+              profile={profile}
+              language={language}
+              refreshKey={historyRefreshKey}
+              onClose={() => setIsMetricsOpen(false)}
+            />
+          )}
+          {isSettingsOpen && (
+            <SettingsConsole
+              profile={profile}
+              language={language}
+              languageMode={languageMode}
+              isStaffUnlocked={isStaffUnlocked}
+              onUnlock={unlockStaff}
+              onClose={() => setIsSettingsOpen(false)}
+            />
+          )}
+
           <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between bg-white/80 backdrop-blur-md sticky top-0 z-20">
             <div className="flex items-center gap-3">
-              <div className={`w-2.5 h-2.5 rounded-full ${status === AppStatus.CONNECTED ? 'bg-green-500 animate-pulse' : status === AppStatus.CONNECTING ? 'bg-amber-400 animate-bounce' : 'bg-slate-300'}`} />
+              <div className={`w-2.5 h-2.5 rounded-full ${status === AppStatus.CONNECTED ? 'bg-green-500 animate-pulse' : status === AppStatus.CONNECTING || status === AppStatus.RECONNECTING ? 'bg-amber-400 animate-bounce' : 'bg-slate-300'}`} />
               <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">
-                {status === AppStatus.CONNECTED ? 'Secure Line Active' : 'System Standby'}
+                {status === AppStatus.CONNECTED
+                  ? strings.secureLineActive
+                  : status === AppStatus.RECONNECTING
+                    ? `${strings.reconnecting}${reconnectAttempt > 0 ? ` · ${format(strings.attempt, { current: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS })}` : ''}`
+                    : strings.systemStandby}
               </span>
             </div>
+            {autoHangup && status !== AppStatus.IDLE && status !== AppStatus.ERROR ? (
+              <span className="text-[9px] font-black text-rose-600 bg-rose-50 px-3 py-1 rounded-full uppercase tracking-widest border border-rose-100 animate-pulse">
+                {strings[`autoHangup_${autoHangup}`]}
+              </span>
+            ) : secondsLeft !== null && (
+              <span className="text-[9px] font-black text-amber-700 bg-amber-50 px-3 py-1 rounded-full uppercase tracking-widest border border-amber-100">
+                {format(strings.callEndsIn, { time: `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}` })}
+              </span>
+            )}
+            {isAfterHours && status !== AppStatus.IDLE && status !== AppStatus.ERROR && (
+              <span className="text-[9px] font-black text-amber-700 bg-amber-50 px-3 py-1 rounded-full uppercase tracking-widest border border-amber-100">
+                {strings.afterHoursMode}
+              </span>
+            )}
+            {isOnHold ? (
+              <span className="text-[9px] font-black text-amber-700 bg-amber-50 px-3 py-1 rounded-full uppercase tracking-widest border border-amber-100 animate-pulse">
+                {strings.onHold}
+              </span>
+            ) : isMuted && status !== AppStatus.IDLE && status !== AppStatus.ERROR && (
+              <span className="text-[9px] font-black text-rose-600 bg-rose-50 px-3 py-1 rounded-full uppercase tracking-widest border border-rose-100">
+                {strings.micMuted}
+              </span>
+            )}
+            {consent && (
+              <ConsentStatus
+                consent={consent}
+                canDecide={status === AppStatus.CONNECTED || status === AppStatus.RECONNECTING}
+                strings={strings}
+                onDecide={decision => recordConsent(decision, 'operator')}
+              />
+            )}
             {isProcessing && (
               <span className="text-[9px] font-black text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full uppercase animate-pulse border border-indigo-100">
-                AI Processing...
+                {strings.aiProcessing}
               </span>
             )}
             {errorMessage && (
               <div className="bg-rose-50 px-4 py-1.5 rounded-full border border-rose-100 flex items-center gap-2 shadow-sm animate-in fade-in slide-in-from-top-1">
                 <div className="w-1.5 h-1.5 bg-rose-500 rounded-full animate-pulse" />
                 <span className="text-[10px] font-black text-rose-600 uppercase tracking-tighter">
-                  {errorMessage}
+                  {strings[errorMessage]}
                 </span>
               </div>
             )}
           </div>
 
-          <div ref={scrollRef} className="flex-1 overflow-y-auto p-8 space-y-6 bg-slate-50/10">
-            {transcriptions.length === 0 ? (
-              <div className="h-full flex flex-col items-center justify-center text-center max-w-sm mx-auto opacity-40">
-                <div className="w-24 h-24 bg-slate-100 rounded-3xl flex items-center justify-center mb-8 shadow-inner rotate-3">
-                  <svg className="w-12 h-12 text-slate-400 -rotate-3" fill="currentColor" viewBox="0 0 20 20"><path d="M2 3a1 1 0 011-1h2.153a1 1 0 01.986.836l.74 4.435a1 1 0 01-.54 1.06l-1.548.773a11.037 11.037 0 006.105 6.105l.774-1.548a1 1 0 011.059-.54l4.435.74a1 1 0 01.836.986V17a1 1 0 01-1 1h-2C7.82 18 2 12.18 2 5V3z" /></svg>
+          <StaffAlertBanner
+            alerts={redFlags.slice(acknowledgedAlerts).map(e => ({ ...e, detail: show(e.detail) }))}
+            isTransferred={isTransferred}
+            strings={strings}
+            onAcknowledge={() => setAcknowledgedAlerts(redFlags.length)}
+            onResume={resumeAgent}
+          />
+
+          {appointments.length > 0 && (
+            <div className="px-8 py-4 border-b border-emerald-100 bg-emerald-50/60 flex flex-wrap gap-3">
+              {appointments.map(a => (
+                <div key={a.id} className="flex items-center gap-3 bg-white px-4 py-2 rounded-2xl border border-emerald-200 shadow-sm">
+                  <div className="w-2 h-2 rounded-full bg-emerald-500" />
+                  <div>
+                    <span className="text-[9px] font-black text-emerald-600 uppercase tracking-widest block">{strings.booked} · {a.department}</span>
+                    <span className="text-xs font-bold text-slate-700">{show(a.patientName)} — {a.date} {strings.at} {a.time}</span>
+                  </div>
                 </div>
-                <h4 className="text-base font-black text-slate-800 mb-2 uppercase tracking-tight">Canada Care Hospital</h4>
-                <p className="text-[11px] font-bold text-slate-500 leading-relaxed uppercase tracking-widest">Natural voice interaction terminal. Tap the phone icon below to start a booking.</p>
-              </div>
-            ) : (
-              transcriptions.map((t, i) => (
-                <div key={i} className={`flex ${t.type === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-3 duration-500`}>
-                  <div className={`max-w-[80%] px-6 py-4 rounded-3xl shadow-sm border ${
-                    t.type === 'user' 
-                      ? 'bg-indigo-600 text-white border-indigo-500 rounded-tr-none' 
-                      : 'bg-white text-slate-700 border-slate-200 rounded-tl-none'
-                  }`}>
-                    <span className={`text-[9px] font-black uppercase tracking-widest block mb-2 opacity-60 ${t.type === 'user' ? 'text-indigo-200' : 'text-slate-400'}`}>
-                      {t.type === 'user' ? 'Patient' : 'Receptionist'}
-                    </span>
-                    <p className="text-sm font-bold leading-relaxed">{t.text}</p>
-                    <span className="text-[8px] opacity-40 mt-3 block text-right font-mono font-black">
-                      {t.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </span>
+              ))}
+            </div>
+          )}
+
+          {changes.length > 0 && (
+            <div className="px-8 py-4 border-b border-indigo-100 bg-indigo-50/40 flex flex-wrap gap-3">
+              {changes.map((c, i) => <AppointmentChangeCard key={i} change={c} strings={strings} show={show} />)}
+            </div>
+          )}
+
+          {intakes.length > 0 && (
+            <div className="px-8 py-4 border-b border-slate-100 bg-slate-50/60 flex flex-wrap gap-3">
+              {intakes.map(intake => <IntakeCard key={intake.department} intake={intake} strings={strings} show={show} />)}
+            </div>
+          )}
+
+          {callbacks.length > 0 && (
+            <div className="px-8 py-4 border-b border-amber-100 bg-amber-50/60 flex flex-wrap gap-3">
+              {callbacks.map(c => (
+                <div key={c.id} className="flex items-center gap-3 bg-white px-4 py-2 rounded-2xl border border-amber-200 shadow-sm">
+                  <div className="w-2 h-2 rounded-full bg-amber-500" />
+                  <div>
+                    <span className="text-[9px] font-black text-amber-600 uppercase tracking-widest block">{strings.callbackRequested}{c.preferredTime ? ` · ${c.preferredTime}` : ''}</span>
+                    <span className="text-xs font-bold text-slate-700">{show(c.patientName)}, {show(c.phone)} — {show(c.reason)}</span>
                   </div>
                 </div>
-              ))
-            )}
+              ))}
+            </div>
+          )}
+
+          <div className="flex-1 flex overflow-hidden">
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div ref={scrollRef} className="flex-1 overflow-y-auto p-8 space-y-6 bg-slate-50/10">
+                {transcriptions.length === 0 && !captions.user && !captions.agent ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center max-w-sm mx-auto opacity-40">
+                    <div className="w-24 h-24 bg-slate-100 rounded-3xl flex items-center justify-center mb-8 shadow-inner rotate-3">
+                      <svg className="w-12 h-12 text-slate-400 -rotate-3" fill="currentColor" viewBox="0 0 20 20"><path d="M2 3a1 1 0 011-1h2.153a1 1 0 01.986.836l.74 4.435a1 1 0 01-.54 1.06l-1.548.773a11.037 11.037 0 006.105 6.105l.774-1.548a1 1 0 011.059-.54l4.435.74a1 1 0 01.836.986V17a1 1 0 01-1 1h-2C7.82 18 2 12.18 2 5V3z" /></svg>
+                    </div>
+                    <h4 className="text-base font-black text-slate-800 mb-2 uppercase tracking-tight">{profile.name}</h4>
+                    <p className="text-[11px] font-bold text-slate-500 leading-relaxed uppercase tracking-widest">{strings.emptyStateBody}</p>
+                  </div>
+                ) : (
+                  <>
+                    {transcriptions.map((t, i) => (
+                      <TranscriptBubble key={i} side={t.type} text={show(t.text)} strings={strings} timestamp={t.timestamp} typed={t.typed} interrupted={t.interrupted} />
+                    ))}
+                    {captions.user.trim() && <TranscriptBubble side="user" text={show(captions.user.trim())} strings={strings} />}
+                    {captions.agent.trim() && <TranscriptBubble side="agent" text={show(captions.agent.trim())} strings={strings} />}
+                  </>
+                )}
+              </div>
+              <ChatComposer
+                inputMode={inputMode}
+                replyMode={replyMode}
+                canSend={status === AppStatus.CONNECTED && !isTransferred}
+                strings={strings}
+                onInputModeChange={handleInputModeChange}
+                onReplyModeChange={handleReplyModeChange}
+                onSend={sendTypedMessage}
+              />
+            </div>
+            <AppointmentDraftCard draft={maskPhi ? redactDraft(draft, redactor) : draft} strings={strings} />
           </div>
 
           <div className="p-10 bg-white border-t border-slate-100 flex flex-col items-center gap-8 relative z-20">
-            <div className="flex items-center gap-12">
+            <div className="flex items-center gap-6">
               {status === AppStatus.IDLE || status === AppStatus.ERROR ? (
                 <button
                   onClick={handleStart}
@@ -445,7 +1374,10 @@ const App: React.FC = () => {
               ) : (
                 <>
                   <button
-                    onClick={() => setIsMuted(!isMuted)}
+                    onClick={toggleMute}
+                    title={isMuted ? strings.unmute : strings.mute}
+                    aria-label={isMuted ? strings.unmute : strings.mute}
+                    aria-pressed={isMuted}
                     className={`w-16 h-16 rounded-3xl border-2 flex items-center justify-center transition-all transform hover:rotate-2 ${
                       isMuted ? 'bg-rose-50 border-rose-200 text-rose-500 shadow-xl shadow-rose-100' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
                     }`}
@@ -457,6 +1389,45 @@ const App: React.FC = () => {
                     )}
                   </button>
 
+                  <button
+                    onClick={togglePushToTalk}
+                    title={strings.pushToTalk}
+                    aria-label={strings.pushToTalk}
+                    aria-pressed={isPushToTalk}
+                    className={`w-16 h-16 rounded-3xl border-2 flex flex-col items-center justify-center transition-all text-[9px] font-black uppercase tracking-widest ${
+                      isPushToTalk ? 'bg-indigo-600 border-indigo-600 text-white shadow-xl shadow-indigo-100' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" /></svg>
+                    {strings.pushToTalkShort}
+                  </button>
+
+                  <button
+                    onClick={isOnHold ? endHold : startHold}
+                    title={isOnHold ? strings.resumeFromHold : strings.hold}
+                    aria-label={isOnHold ? strings.resumeFromHold : strings.hold}
+                    aria-pressed={isOnHold}
+                    className={`w-16 h-16 rounded-3xl border-2 flex items-center justify-center transition-all ${
+                      isOnHold ? 'bg-amber-500 border-amber-500 text-white shadow-xl shadow-amber-100' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {isOnHold ? (
+                      <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
+                    ) : (
+                      <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+                    )}
+                  </button>
+
+                  <button
+                    onClick={() => transferToStaff('operator', '')}
+                    disabled={isTransferred}
+                    title={strings.transferToStaff}
+                    aria-label={strings.transferToStaff}
+                    className="w-16 h-16 rounded-3xl border-2 flex items-center justify-center transition-all transform hover:-rotate-2 bg-amber-50 border-amber-200 text-amber-600 hover:bg-amber-100 disabled:opacity-40"
+                  >
+                    <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                  </button>
+
                   <button
                     onClick={() => handleStop()}
                     className="w-24 h-24 bg-rose-500 hover:bg-rose-600 text-white rounded-full flex items-center justify-center shadow-2xl transition-all transform active:scale-90 ring-8 ring-rose-50"
@@ -464,18 +1435,30 @@ const App: React.FC = () => {
                     <svg className="w-12 h-12" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" /></svg>
                   </button>
                   
-                  <div className="w-16 h-16 flex items-center justify-center">
-                    <div className="flex gap-2 h-8 items-center">
-                      {[1,2,3,4,5].map(i => (
-                        <div key={i} className={`w-1 rounded-full bg-indigo-600 transition-all duration-300 ${status === AppStatus.CONNECTED && !isMuted && !isProcessing ? 'animate-bounce' : 'h-1'}`} style={{ animationDelay: `${i*0.08}s`, animationDuration: '0.8s', height: status === AppStatus.CONNECTED && !isMuted && !isProcessing ? '100%' : '4px' }} />
-                      ))}
-                    </div>
+                  <div className="flex gap-2">
+                    <LevelMeter meter={meters?.mic ?? null} label={isMuted || isOnHold ? strings.micOff : strings.meterMic} clippingLabel={strings.clipping} />
+                    <LevelMeter meter={meters?.agent ?? null} label={strings.meterAgent} clippingLabel={strings.clipping} />
                   </div>
                 </>
               )}
             </div>
+            {isPushToTalk && status === AppStatus.CONNECTED && inputMode === 'voice' && !isOnHold && !isMuted && (
+              <button
+                onPointerDown={e => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setTalking(true);
+                }}
+                onPointerUp={() => setTalking(false)}
+                onPointerCancel={() => setTalking(false)}
+                className={`px-10 py-4 rounded-full text-[10px] font-black uppercase tracking-widest border-2 select-none touch-none transition-all ${
+                  isTalking ? 'bg-indigo-600 border-indigo-600 text-white shadow-xl shadow-indigo-100 scale-105' : 'bg-white border-indigo-200 text-indigo-600 hover:bg-indigo-50'
+                }`}
+              >
+                {isTalking ? strings.talking : strings.pushToTalkHint}
+              </button>
+            )}
             <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.4em] text-center">
-              {status === AppStatus.CONNECTED ? (isMuted ? 'Line Muted' : 'Human-like turn-taking active') : status === AppStatus.ERROR ? 'Tap to Reconnect' : 'Connect to Canada Care'}
+              {status === AppStatus.CONNECTED ? (isTransferred ? strings.awaitingStaff : isOnHold ? strings.onHold : inputMode === 'text' ? strings.textChatActive : isMuted ? strings.lineMuted : isPushToTalk ? strings.pushToTalk : strings.turnTakingActive) : status === AppStatus.RECONNECTING ? strings.holdingLine : status === AppStatus.ERROR ? strings.tapToReconnect : format(strings.connectTo, { name: profile.shortName })}
             </p>
           </div>
         </main>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { AppointmentChange, AppointmentChangeKind } from '../types';
+import { Strings } from '../utils/i18n';
+
+interface AppointmentChangeCardProps {
+  change: AppointmentChange;
+  strings: Strings;
+  /** Applied to the patient name, e.g. to mask it. */
+  show?: (text: string) => string;
+}
+
+const FIELDS = ['department', 'date', 'time'] as const;
+
+const KIND_STYLES: Record<AppointmentChangeKind, string> = {
+  rescheduled: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  cancelled: 'bg-rose-50 text-rose-600 border-rose-100',
+};
+
+/** Before/after view of one change: edited fields are struck through and shown with their new value. */
+const AppointmentChangeCard: React.FC<AppointmentChangeCardProps> = ({ change, strings, show = text => text }) => {
+  const { kind, before, after } = change;
+
+  return (
+    <div className="bg-white px-4 py-3 rounded-2xl border border-slate-200 shadow-sm min-w-[16rem]">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="text-xs font-bold text-slate-700">{show(before.patientName)}</span>
+        <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full border ${KIND_STYLES[kind]}`}>{strings[`change_${kind}`]}</span>
+      </div>
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            <th />
+            <th className="text-left font-black pb-1">{strings.changeBefore}</th>
+            <th className="text-left font-black pb-1">{strings.changeAfter}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {FIELDS.map(field => {
+            const edited = kind === 'cancelled' || before[field] !== after[field];
+            return (
+              <tr key={field}>
+                <th className="text-left pr-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">{strings[`draftField_${field}`]}</th>
+                <td className={`pr-3 font-bold ${edited ? 'text-rose-500 line-through' : 'text-slate-500'}`}>{before[field]}</td>
+                <td className={`font-bold ${edited ? 'text-emerald-700' : 'text-slate-500'}`}>{kind === 'cancelled' ? '—' : after[field]}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AppointmentChangeCard;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { AppointmentDraft, DraftFieldStatus } from '../types';
+import { DRAFT_FIELDS } from '../utils/appointmentDraft';
+import { Strings } from '../utils/i18n';
+
+interface AppointmentDraftCardProps {
+  draft: AppointmentDraft;
+  strings: Strings;
+}
+
+const STATUS_STYLES: Record<DraftFieldStatus, string> = {
+  unconfirmed: 'bg-amber-50 text-amber-600 border-amber-100',
+  confirmed: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  changed: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+};
+
+const AppointmentDraftCard: React.FC<AppointmentDraftCardProps> = ({ draft, strings }) => {
+  const isEmpty = DRAFT_FIELDS.every(field => !draft[field]);
+
+  return (
+    <aside className="w-64 shrink-0 border-l border-slate-100 p-6 overflow-y-auto bg-white">
+      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">{strings.appointmentDraft}</h3>
+      {isEmpty ? (
+        <p className="text-[11px] font-bold text-slate-400 leading-relaxed">{strings.draftEmpty}</p>
+      ) : (
+        <dl className="space-y-3">
+          {DRAFT_FIELDS.map(field => {
+            const entry = draft[field];
+            return (
+              <div key={field} className="px-3 py-2 rounded-2xl border border-slate-100 bg-slate-50/60">
+                <div className="flex items-center justify-between mb-1">
+                  <dt className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{strings[`draftField_${field}`]}</dt>
+                  {entry && (
+                    <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full border ${STATUS_STYLES[entry.status]}`}>
+                      {strings[`draftStatus_${entry.status}`]}
+                    </span>
+                  )}
+                </div>
+                <dd className="text-xs font-bold text-slate-700 break-words">{entry?.value ?? '—'}</dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
+    </aside>
+  );
+};
+
+export default AppointmentDraftCard;
@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { CallLimitSettings, CallOutcome, CallRecord, ExportPrivacy, HospitalProfile, Language, RecordingFormat, RecordingSettings } from '../types';
+import { deleteCall, getRecordingRetentionDays, getRetentionLimit, listCalls, purgeExpiredRecordings, purgeOldCalls, searchCalls, setRecordingRetentionDays, setRetentionLimit } from '../utils/callHistory';
+import { exportCall, ExportFormat } from '../utils/callExport';
+import { getCallLimits, setCallLimits } from '../utils/callLimits';
+import { getRecordingSettings, setRecordingSettings } from '../utils/callRecorder';
+import { getConsentRequired, setConsentRequired } from '../utils/consent';
+import { getStrings } from '../utils/i18n';
+import { logError } from '../utils/log';
+import { createCallRedactor } from '../utils/redaction';
+import AppointmentChangeCard from './AppointmentChangeCard';
+import ExportMenu from './ExportMenu';
+import IntakeCard from './IntakeCard';
+
+interface CallHistoryPanelProps {
+  profile: HospitalProfile;
+  language: Language;
+  refreshKey: number;
+  maskPhi: boolean;
+  isStaffUnlocked: boolean;
+  onUnlock: (pin: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<CallOutcome, string> = {
+  booked: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  changed: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  callback: 'bg-amber-50 text-amber-700 border-amber-100',
+  completed: 'bg-slate-50 text-slate-500 border-slate-200',
+  failed: 'bg-rose-50 text-rose-600 border-rose-100',
+};
+
+function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+const CallHistoryPanel: React.FC<CallHistoryPanelProps> = ({ profile, language, refreshKey, maskPhi, isStaffUnlocked, onUnlock, onClose }) => {
+  const strings = getStrings(language);
+  const siteId = profile.id;
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [retention, setRetention] = useState(getRetentionLimit);
+  const [recordingSettings, setRecordingSettingsState] = useState(getRecordingSettings);
+  const [recordingDays, setRecordingDays] = useState(getRecordingRetentionDays);
+  const [consentRequired, setConsentRequiredState] = useState(getConsentRequired);
+  const [callLimits, setCallLimitsState] = useState(getCallLimits);
+  const [loadError, setLoadError] = useState(false);
+
+  const reload = useCallback(() => {
+    listCalls()
+      .then(all => {
+        setCalls(all.filter(c => c.siteId === siteId));
+        setLoadError(false);
+      })
+      .catch(e => {
+        logError("Call History Error:", e);
+        setLoadError(true);
+      });
+  }, [siteId]);
+
+  useEffect(reload, [reload, refreshKey]);
+
+  const filtered = useMemo(() => searchCalls(calls, query), [calls, query]);
+  const selected = calls.find(c => c.id === selectedId) ?? null;
+  const selectedRedactor = useMemo(() => (selected ? createCallRedactor(profile, selected, strings) : null), [profile, selected, strings]);
+  const show = (text: string) => (maskPhi && selectedRedactor ? selectedRedactor.redact(text) : text);
+
+  useEffect(() => {
+    if (!selected?.recording) {
+      setPlaybackUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.recording);
+    setPlaybackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const handleDelete = async (id: string) => {
+    await deleteCall(id);
+    if (selectedId === id) setSelectedId(null);
+    reload();
+  };
+
+  const handleRetentionChange = async (value: number) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    setRetentionLimit(value);
+    setRetention(value);
+    await purgeOldCalls(value);
+    reload();
+  };
+
+  const handleRecordingDaysChange = async (value: number) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    setRecordingRetentionDays(value);
+    setRecordingDays(value);
+    await purgeExpiredRecordings(value);
+    reload();
+  };
+
+  // Applies from the next call; a call in progress keeps the recorder it started with.
+  const handleRecordingSettingsChange = (settings: RecordingSettings) => {
+    setRecordingSettings(settings);
+    setRecordingSettingsState(settings);
+  };
+
+  // Like the recording settings, limits apply from the next call.
+  const handleCallLimitsChange = (patch: Partial<CallLimitSettings>) => {
+    const next = { ...callLimits, ...patch };
+    if (Object.values(patch).some(v => typeof v === 'number' && (!Number.isInteger(v) || v < 0))) return;
+    setCallLimits(next);
+    setCallLimitsState(next);
+  };
+
+  const handleExport = (call: CallRecord, format: ExportFormat, privacy: ExportPrivacy) => {
+    if (privacy === 'full' && !isStaffUnlocked) return;
+    const redactor = privacy === 'redacted' ? createCallRedactor(profile, call, getStrings(call.language)) : null;
+    exportCall(call, format, redactor).catch(e => logError("Call Export Failed:", e));
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between gap-4">
+        <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{strings.callHistory}</h2>
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={strings.searchTranscripts}
+          className="flex-1 max-w-xs px-4 py-2 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-300"
+        />
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700">{strings.close}</button>
+      </div>
+
+      <div className="flex-1 grid grid-cols-5 overflow-hidden">
+        <ul className="col-span-2 border-r border-slate-100 overflow-y-auto">
+          {loadError && <li className="p-6 text-[11px] font-bold text-rose-600">{strings.historyUnavailable}</li>}
+          {!loadError && filtered.length === 0 && (
+            <li className="p-6 text-[11px] font-bold text-slate-400 uppercase tracking-widest">{strings.noCallsFound}</li>
+          )}
+          {filtered.map(call => (
+            <li key={call.id}>
+              <button
+                onClick={() => setSelectedId(call.id)}
+                className={`w-full text-left px-6 py-4 border-b border-slate-50 hover:bg-slate-50 ${selectedId === call.id ? 'bg-indigo-50/60' : ''}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-black text-slate-700">{call.startedAt.toLocaleString(language)}</span>
+                  <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full border ${OUTCOME_STYLES[call.outcome]}`}>{strings[`outcome_${call.outcome}`]}</span>
+                </div>
+                <span className="text-[10px] font-mono font-bold text-slate-400">
+                  {formatDuration(call.durationMs)} · {call.transcriptions.length} {strings.turns} · {call.language}
+                  {call.silenceMs !== undefined && ` · ${formatDuration(call.silenceMs)} ${strings.silence}`}
+                  {call.preset && ` · ${call.preset.name} v${call.preset.version}`}
+                </span>
+                {call.autoHangup && (
+                  <span className="mt-1 mr-1 inline-block text-[9px] font-black uppercase px-2 py-0.5 rounded-full border bg-amber-50 text-amber-700 border-amber-100">{strings[`autoHangup_${call.autoHangup}`]}</span>
+                )}
+                {call.consent?.decision === 'refused' && (
+                  <span className="mt-1 mr-1 inline-block text-[9px] font-black uppercase px-2 py-0.5 rounded-full border bg-rose-50 text-rose-600 border-rose-100">{strings.consent_refused}</span>
+                )}
+                {(call.escalations?.length ?? 0) > 0 && (
+                  <span className="mt-1 inline-block text-[9px] font-black uppercase px-2 py-0.5 rounded-full border bg-rose-600 text-white border-rose-600">{strings.escalations} · {call.escalations.length}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <section className="col-span-3 overflow-y-auto p-6 space-y-4">
+          {selected ? (
+            <>
+              {/* A recording carries the caller's voice and details, so it stays hidden while masking is on. */}
+              {playbackUrl && !maskPhi && <audio controls src={playbackUrl} className="w-full" />}
+              <div className="flex gap-2">
+                <ExportMenu
+                  strings={strings}
+                  disabled={false}
+                  audio={selected}
+                  isStaffUnlocked={isStaffUnlocked}
+                  onUnlock={onUnlock}
+                  onExport={(format, privacy) => handleExport(selected, format, privacy)}
+                  className="w-48"
+                />
+                <button onClick={() => handleDelete(selected.id)} className="ml-auto px-4 py-2 bg-rose-50 text-rose-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-rose-100 hover:bg-rose-100">{strings.delete}</button>
+              </div>
+              {(selected.changes?.length ?? 0) > 0 && (
+                <div className="flex flex-wrap gap-3">
+                  {selected.changes.map((c, i) => <AppointmentChangeCard key={i} change={c} strings={strings} show={show} />)}
+                </div>
+              )}
+              {(selected.intakes?.length ?? 0) > 0 && (
+                <div className="flex flex-wrap gap-3">
+                  {selected.intakes.map(intake => <IntakeCard key={intake.department} intake={intake} strings={strings} show={show} />)}
+                </div>
+              )}
+              {selected.transcriptions.map((t, i) => (
+                <p key={i} className="text-xs leading-relaxed">
+                  <span className={`font-black uppercase text-[9px] tracking-widest mr-2 ${t.type === 'user' ? 'text-indigo-600' : 'text-slate-400'}`}>
+                    {t.type === 'user' ? strings.patient : strings.receptionist}{t.typed ? ` · ${strings.typed}` : ''}
+                  </span>
+                  <span className="font-bold text-slate-700">{show(t.text)}</span>
+                  {t.interrupted && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-slate-400">{strings.interrupted}</span>}
+                </p>
+              ))}
+            </>
+          ) : (
+            <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">{strings.selectCall}</p>
+          )}
+        </section>
+      </div>
+
+      <div className="px-8 py-3 border-t border-slate-100 flex flex-wrap items-center gap-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.keepLast}</label>
+        <input
+          type="number"
+          min={1}
+          value={retention}
+          onChange={e => handleRetentionChange(Number(e.target.value))}
+          className="w-20 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.calls}</span>
+
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.deleteRecordingsAfter}</label>
+        <input
+          type="number"
+          min={1}
+          value={recordingDays}
+          onChange={e => handleRecordingDaysChange(Number(e.target.value))}
+          className="w-16 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.days}</span>
+
+        <label className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <input
+            type="checkbox"
+            checked={consentRequired}
+            onChange={e => {
+              setConsentRequired(e.target.checked);
+              setConsentRequiredState(e.target.checked);
+            }}
+          />
+          {strings.requireConsent}
+        </label>
+
+        <label className="ml-auto text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.recordingFormat}</label>
+        <select
+          value={recordingSettings.format}
+          onChange={e => handleRecordingSettingsChange({ ...recordingSettings, format: e.target.value as RecordingFormat })}
+          className="px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        >
+          <option value="webm">{strings.recordingWebm}</option>
+          <option value="wav">{strings.recordingWav}</option>
+        </select>
+        <label className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <input
+            type="checkbox"
+            checked={recordingSettings.stems}
+            onChange={e => handleRecordingSettingsChange({ ...recordingSettings, stems: e.target.checked })}
+          />
+          {strings.saveStems}
+        </label>
+      </div>
+
+      <div className="px-8 py-3 border-t border-slate-100 flex flex-wrap items-center gap-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.askStillThereAfter}</label>
+        <input
+          type="number"
+          min={0}
+          value={callLimits.stillThereAfterSec}
+          onChange={e => handleCallLimitsChange({ stillThereAfterSec: Number(e.target.value) })}
+          className="w-16 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.seconds}</span>
+
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.endSilentCallAfter}</label>
+        <input
+          type="number"
+          min={0}
+          value={callLimits.hangUpAfterSec}
+          onChange={e => handleCallLimitsChange({ hangUpAfterSec: Number(e.target.value) })}
+          className="w-16 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.seconds}</span>
+
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.maxCallLength}</label>
+        <input
+          type="number"
+          min={0}
+          value={callLimits.maxCallMinutes}
+          onChange={e => handleCallLimitsChange({ maxCallMinutes: Number(e.target.value) })}
+          className="w-16 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.minutes}</span>
+
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.warnBeforeEnd}</label>
+        <input
+          type="number"
+          min={0}
+          value={callLimits.warnBeforeEndSec}
+          onChange={e => handleCallLimitsChange({ warnBeforeEndSec: Number(e.target.value) })}
+          className="w-16 px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{strings.seconds}</span>
+
+        <input
+          value={callLimits.stillTherePrompt}
+          onChange={e => handleCallLimitsChange({ stillTherePrompt: e.target.value })}
+          placeholder={strings.stillTherePromptPlaceholder}
+          className="flex-1 min-w-[12rem] px-3 py-1 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CallHistoryPanel;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { InputMode, ReplyMode } from '../types';
+import { Strings } from '../utils/i18n';
+
+interface ChatComposerProps {
+  inputMode: InputMode;
+  replyMode: ReplyMode;
+  canSend: boolean;
+  strings: Strings;
+  onInputModeChange: (mode: InputMode) => void;
+  onReplyModeChange: (mode: ReplyMode) => void;
+  onSend: (text: string) => void;
+}
+
+const toggleClass = (active: boolean) =>
+  `px-3 py-1 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+    active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+  }`;
+
+const ChatComposer: React.FC<ChatComposerProps> = ({ inputMode, replyMode, canSend, strings, onInputModeChange, onReplyModeChange, onSend }) => {
+  const [text, setText] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = text.trim();
+    if (!message || !canSend) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <div className="border-t border-slate-100 bg-white px-6 py-3 space-y-2">
+      <div className="flex items-center gap-1.5">
+        <button type="button" onClick={() => onInputModeChange('voice')} className={toggleClass(inputMode === 'voice')}>{strings.inputVoice}</button>
+        <button type="button" onClick={() => onInputModeChange('text')} className={toggleClass(inputMode === 'text')}>{strings.inputText}</button>
+        <span className="ml-auto text-[9px] font-black text-slate-400 uppercase tracking-widest mr-1">{strings.replies}</span>
+        <button type="button" onClick={() => onReplyModeChange('audio')} className={toggleClass(replyMode === 'audio')}>{strings.replyAudio}</button>
+        <button type="button" onClick={() => onReplyModeChange('text')} className={toggleClass(replyMode === 'text')}>{strings.replyText}</button>
+      </div>
+      {inputMode === 'text' && (
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            disabled={!canSend}
+            placeholder={strings.typeMessage}
+            aria-label={strings.typeMessage}
+            className="flex-1 px-4 py-2.5 rounded-2xl border border-slate-200 bg-slate-50 text-sm font-bold text-slate-700 focus:outline-none focus:border-indigo-300 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={!canSend || !text.trim()}
+            className="px-5 py-2.5 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-30"
+          >
+            {strings.send}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ChatComposer;
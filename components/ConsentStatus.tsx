@@ -0,0 +1,44 @@
+import React from 'react';
+import { ConsentDecision, RecordingConsent } from '../types';
+import { Strings } from '../utils/i18n';
+
+interface ConsentStatusProps {
+  consent: RecordingConsent;
+  /** Lets the operator record the answer when the agent has not. */
+  canDecide: boolean;
+  strings: Strings;
+  onDecide: (decision: ConsentDecision) => void;
+}
+
+const STATUS_STYLES: Record<ConsentDecision, string> = {
+  pending: 'bg-amber-50 text-amber-600 border-amber-100',
+  granted: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  refused: 'bg-rose-50 text-rose-600 border-rose-100',
+  not_required: 'bg-slate-50 text-slate-500 border-slate-200',
+};
+
+const ConsentStatus: React.FC<ConsentStatusProps> = ({ consent, canDecide, strings, onDecide }) => (
+  <div className="flex items-center gap-1.5">
+    <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${STATUS_STYLES[consent.decision]}`}>
+      {strings[`consent_${consent.decision}`]}
+    </span>
+    {canDecide && consent.decision === 'pending' && (
+      <>
+        <button
+          onClick={() => onDecide('granted')}
+          className="text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full border border-emerald-200 text-emerald-700 hover:bg-emerald-50"
+        >
+          {strings.consentGrant}
+        </button>
+        <button
+          onClick={() => onDecide('refused')}
+          className="text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full border border-rose-200 text-rose-600 hover:bg-rose-50"
+        >
+          {strings.consentRefuse}
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export default ConsentStatus;
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CallRecord, ExportPrivacy } from '../types';
+import { canExport, EXPORT_FORMATS, ExportFormat } from '../utils/callExport';
+import { Strings } from '../utils/i18n';
+import StaffUnlockForm from './StaffUnlockForm';
+
+interface ExportMenuProps {
+  strings: Strings;
+  disabled: boolean;
+  /** The audio available to export; formats needing missing audio are greyed out. */
+  audio: Pick<CallRecord, 'recording' | 'stems'> | null;
+  /** Full, unredacted exports are only offered once staff have entered the PIN. */
+  isStaffUnlocked: boolean;
+  onUnlock: (pin: string) => Promise<boolean>;
+  onExport: (format: ExportFormat, privacy: ExportPrivacy) => void;
+  className?: string;
+}
+
+const privacyClass = (active: boolean) =>
+  `flex-1 py-1 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+    active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+  }`;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ strings, disabled, audio, isStaffUnlocked, onUnlock, onExport, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [privacy, setPrivacy] = useState<ExportPrivacy>('redacted');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  // Every export starts redacted; full is a deliberate choice each time.
+  useEffect(() => {
+    if (!isOpen) setPrivacy('redacted');
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="w-full py-3 px-4 bg-indigo-50 text-indigo-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 disabled:opacity-30 transition-all flex items-center justify-center gap-2 border border-indigo-100"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+        {strings.export}
+      </button>
+      {isOpen && !disabled && (
+        <div className="absolute left-0 right-0 mt-2 z-40 bg-white rounded-2xl shadow-xl border border-slate-200 py-2 min-w-[14rem]">
+          <div className="flex gap-1.5 px-4 pb-2 mb-1 border-b border-slate-100">
+            <button type="button" onClick={() => setPrivacy('redacted')} className={privacyClass(privacy === 'redacted')}>{strings.exportRedacted}</button>
+            <button type="button" onClick={() => setPrivacy('full')} className={privacyClass(privacy === 'full')}>{strings.exportFull}</button>
+          </div>
+          {privacy === 'full' && !isStaffUnlocked ? (
+            <StaffUnlockForm strings={strings} onUnlock={onUnlock} />
+          ) : (
+            <ul role="menu">
+              {EXPORT_FORMATS.map(format => (
+                <li key={format}>
+                  <button
+                    role="menuitem"
+                    onClick={() => {
+                      setIsOpen(false);
+                      onExport(format, privacy);
+                    }}
+                    disabled={!canExport(audio, format, privacy)}
+                    className="w-full text-left px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                  >
+                    {strings[`exportFormat_${format}`]}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { IntakeResponse } from '../types';
+import { Strings } from '../utils/i18n';
+import { formatIntakeValue, isFieldAsked } from '../utils/intakeForms';
+
+interface IntakeCardProps {
+  intake: IntakeResponse;
+  strings: Strings;
+  /** Applied to text answers, e.g. to mask them. */
+  show?: (text: string) => string;
+}
+
+/** The questions that apply to this intake, answered or still open. */
+const IntakeCard: React.FC<IntakeCardProps> = ({ intake, strings, show = text => text }) => {
+  const fields = intake.form.fields.filter(f => isFieldAsked(f, intake.answers));
+
+  return (
+    <div className="bg-white px-4 py-3 rounded-2xl border border-slate-200 shadow-sm min-w-[16rem]">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="text-xs font-bold text-slate-700">{intake.form.title}</span>
+        <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full border ${intake.complete ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+          {intake.complete ? strings.intakeComplete : strings.intakeIncomplete}
+        </span>
+      </div>
+      <table className="w-full text-[11px]">
+        <tbody>
+          {fields.map(field => {
+            const value = intake.answers[field.id];
+            return (
+              <tr key={field.id}>
+                <th className="text-left pr-3 py-0.5 text-[9px] font-black text-slate-400 uppercase tracking-widest align-top">
+                  {field.label}{field.required ? ' *' : ''}
+                </th>
+                <td className={`font-bold ${value === undefined ? 'text-slate-300' : 'text-slate-700'}`}>
+                  {value === undefined ? '—' : typeof value === 'string' && field.type === 'text' ? show(value) : formatIntakeValue(value, strings.yes, strings.no)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default IntakeCard;
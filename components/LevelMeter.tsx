@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LevelMeter as Meter } from '../utils/audioLevels';
+
+interface LevelMeterProps {
+  meter: Meter | null;
+  label: string;
+  clippingLabel: string;
+}
+
+const BARS = [0.55, 0.8, 1, 0.8, 0.55];
+// A single clipped frame is easy to miss; keep the warning up for a moment.
+const CLIP_HOLD_MS = 1500;
+
+/** Five bars driven by the meter's level, redrawn every animation frame without re-rendering. */
+const LevelMeter: React.FC<LevelMeterProps> = ({ meter, label, clippingLabel }) => {
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [isClipping, setIsClipping] = useState(false);
+
+  useEffect(() => {
+    if (!meter) return;
+    let frame = 0;
+    let clippedAt = 0;
+    let shownClipping = false;
+    const draw = () => {
+      const { level, clipping } = meter.read();
+      barRefs.current.forEach((bar, i) => {
+        if (bar) bar.style.height = `${Math.max(4, level * BARS[i] * 32)}px`;
+      });
+      const now = performance.now();
+      if (clipping) clippedAt = now;
+      const showClipping = now - clippedAt < CLIP_HOLD_MS && clippedAt > 0;
+      if (showClipping !== shownClipping) {
+        shownClipping = showClipping;
+        setIsClipping(showClipping);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => {
+      cancelAnimationFrame(frame);
+      setIsClipping(false);
+    };
+  }, [meter]);
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 w-16" title={label}>
+      <div className="flex gap-1.5 h-8 items-center">
+        {BARS.map((_, i) => (
+          <div
+            key={i}
+            ref={el => { barRefs.current[i] = el; }}
+            className={`w-1 rounded-full transition-[height] duration-75 ${isClipping ? 'bg-rose-500' : 'bg-indigo-600'}`}
+            style={{ height: '4px' }}
+          />
+        ))}
+      </div>
+      <span className={`text-[8px] font-black uppercase tracking-widest ${isClipping ? 'text-rose-600' : 'text-slate-400'}`}>
+        {isClipping ? clippingLabel : label}
+      </span>
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CallRecord, HospitalProfile, Language } from '../types';
+import { listCalls } from '../utils/callHistory';
+import { aggregateMetrics, buildCallMetricsCsv, buildSummaryCsv, MetricsPeriod, summarizeCalls } from '../utils/callMetrics';
+import { downloadBlob } from '../utils/download';
+import { getStrings } from '../utils/i18n';
+import { logError } from '../utils/log';
+
+interface MetricsDashboardProps {
+  profile: HospitalProfile;
+  language: Language;
+  refreshKey: number;
+  onClose: () => void;
+}
+
+const PERIODS: MetricsPeriod[] = ['day', 'week'];
+
+const formatMs = (ms: number | null) => (ms === null ? '–' : `${(ms / 1000).toFixed(1)} s`);
+const formatPercent = (ratio: number | null) => (ratio === null ? '–' : `${Math.round(ratio * 100)}%`);
+
+const MetricsDashboard: React.FC<MetricsDashboardProps> = ({ profile, language, refreshKey, onClose }) => {
+  const strings = getStrings(language);
+  const siteId = profile.id;
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [period, setPeriod] = useState<MetricsPeriod>('day');
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    listCalls()
+      .then(all => {
+        setCalls(all.filter(c => c.siteId === siteId && c.metrics));
+        setLoadError(false);
+      })
+      .catch(e => {
+        logError("Call Metrics Error:", e);
+        setLoadError(true);
+      });
+  }, [siteId, refreshKey]);
+
+  const summaries = useMemo(() => aggregateMetrics(calls, period), [calls, period]);
+  const overall = useMemo(() => summarizeCalls('', calls), [calls]);
+
+  const downloadCsv = (csv: string, name: string) =>
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${siteId}-${name}-${Date.now()}.csv`);
+
+  const tiles = [
+    { label: strings.metricCalls, value: String(overall.calls) },
+    { label: strings.metricMedianLatency, value: formatMs(overall.medianLatencyMs) },
+    { label: strings.metricP95Latency, value: formatMs(overall.p95LatencyMs) },
+    { label: strings.metricBookingRate, value: formatPercent(overall.calls > 0 ? overall.bookingRate : null) },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between gap-4">
+        <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{strings.callMetrics}</h2>
+        <div className="flex gap-1.5">
+          {PERIODS.map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                period === p ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100'
+              }`}
+            >
+              {strings[`period_${p}`]}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700">{strings.close}</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-6">
+        {loadError && <p className="text-[11px] font-bold text-rose-600">{strings.historyUnavailable}</p>}
+
+        <div className="grid grid-cols-4 gap-3">
+          {tiles.map(tile => (
+            <div key={tile.label} className="bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3">
+              <span className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{tile.label}</span>
+              <span className="text-lg font-black text-slate-800">{tile.value}</span>
+            </div>
+          ))}
+        </div>
+
+        {summaries.length === 0 ? (
+          <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">{strings.noMetrics}</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <th className="py-2 pr-4">{strings[`period_${period}`]}</th>
+                <th className="py-2 pr-4">{strings.metricCalls}</th>
+                <th className="py-2 pr-4">{strings.metricMedianLatency}</th>
+                <th className="py-2 pr-4">{strings.metricP95Latency}</th>
+                <th className="py-2 pr-4">{strings.metricBookingRate}</th>
+                <th className="py-2 pr-4">{strings.metricInterruptions}</th>
+                <th className="py-2 pr-4">{strings.metricPatientTalk}</th>
+                <th className="py-2 pr-4">{strings.metricReconnects}</th>
+                <th className="py-2">{strings.metricErrors}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(s => (
+                <tr key={s.period} className="text-xs font-bold text-slate-700 border-b border-slate-50">
+                  <td className="py-2 pr-4 font-mono">{s.period}</td>
+                  <td className="py-2 pr-4">{s.calls}</td>
+                  <td className="py-2 pr-4">{formatMs(s.medianLatencyMs)}</td>
+                  <td className="py-2 pr-4">{formatMs(s.p95LatencyMs)}</td>
+                  <td className="py-2 pr-4">{formatPercent(s.bookingRate)}</td>
+                  <td className="py-2 pr-4">{s.interruptionsPerCall.toFixed(1)}</td>
+                  <td className="py-2 pr-4">{formatPercent(s.patientTalkRatio)}</td>
+                  <td className="py-2 pr-4">{s.reconnects}</td>
+                  <td className="py-2">{s.errors}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="px-8 py-3 border-t border-slate-100 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => downloadCsv(buildSummaryCsv(summaries), `metrics-${period}`)}
+          disabled={summaries.length === 0}
+          className="px-4 py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100 disabled:opacity-50"
+        >
+          {strings.exportSummaryCsv}
+        </button>
+        <button
+          onClick={() => downloadCsv(buildCallMetricsCsv(calls), 'call-metrics')}
+          disabled={calls.length === 0}
+          className="px-4 py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100 disabled:opacity-50"
+        >
+          {strings.exportCallsCsv}
+        </button>
+        <span className="ml-auto text-[10px] font-bold text-slate-400">{strings.metricsHint}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsDashboard;
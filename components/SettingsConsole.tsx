@@ -0,0 +1,277 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AgentPreset, HospitalProfile, Language, VadSensitivity, VadSettings } from '../types';
+import { buildPresetFile, DEFAULT_PRESET_ID, deletePreset, getActivePresetId, getPresets, newPreset, parsePresetFile, savePreset, setActivePresetId, validatePreset } from '../utils/agentPresets';
+import { downloadBlob } from '../utils/download';
+import { format, getStrings, LanguageMode } from '../utils/i18n';
+import { LIVE_MODELS } from '../utils/liveTransport';
+import { logError } from '../utils/log';
+import { buildSystemInstruction, VOICES } from '../utils/systemInstruction';
+import StaffUnlockForm from './StaffUnlockForm';
+
+interface SettingsConsoleProps {
+  profile: HospitalProfile;
+  language: Language;
+  /** Used to preview the instruction the way the next call will get it. */
+  languageMode: LanguageMode;
+  isStaffUnlocked: boolean;
+  onUnlock: (pin: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const SENSITIVITIES: VadSensitivity[] = ['default', 'high', 'low'];
+
+const FIELD_CLASS = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-300';
+const LABEL_CLASS = 'block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1';
+
+const optionalMs = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const SettingsConsole: React.FC<SettingsConsoleProps> = ({ profile, language, languageMode, isStaffUnlocked, onUnlock, onClose }) => {
+  const strings = getStrings(language);
+  const [presets, setPresetsState] = useState(getPresets);
+  const [activeId, setActiveId] = useState(getActivePresetId);
+  const [draft, setDraft] = useState<AgentPreset>(() => presets.find(p => p.id === activeId) ?? presets[0]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [messages, setMessages] = useState<{ tone: 'info' | 'error'; lines: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stored = presets.find(p => p.id === draft.id) ?? null;
+  const isDirty = !stored || JSON.stringify(stored) !== JSON.stringify(draft);
+  const draftErrors = validatePreset(draft);
+
+  const preview = useMemo(
+    () => (showPreview ? buildSystemInstruction(profile, languageMode, { persona: draft.persona, turnTaking: draft.turnTaking }) : ''),
+    [showPreview, profile, languageMode, draft.persona, draft.turnTaking],
+  );
+
+  const reload = () => {
+    setPresetsState(getPresets());
+    setActiveId(getActivePresetId());
+  };
+
+  const update = (patch: Partial<AgentPreset>) => setDraft(current => ({ ...current, ...patch }));
+  const updateVad = (patch: Partial<VadSettings>) => setDraft(current => ({ ...current, vad: { ...current.vad, ...patch } }));
+
+  const handleSave = () => {
+    if (draftErrors.length > 0) return;
+    const saved = savePreset(draft);
+    setDraft(saved);
+    reload();
+    setMessages({ tone: 'info', lines: [format(strings.presetSaved, { name: saved.name, version: saved.version })] });
+  };
+
+  const handleNew = () => {
+    const created = savePreset(newPreset(draft, strings.newPresetName));
+    setDraft(created);
+    reload();
+    setMessages(null);
+  };
+
+  const handleDelete = () => {
+    deletePreset(draft.id);
+    const remaining = getPresets();
+    setDraft(remaining.find(p => p.id === getActivePresetId()) ?? remaining[0]);
+    reload();
+    setMessages(null);
+  };
+
+  const handleUse = () => {
+    setActivePresetId(draft.id);
+    setActiveId(draft.id);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { presets: imported, errors } = parsePresetFile(await file.text());
+      if (errors.length > 0) {
+        setMessages({ tone: 'error', lines: [strings.presetImportFailed, ...errors] });
+        return;
+      }
+      imported.forEach(savePreset);
+      reload();
+      setMessages({ tone: 'info', lines: [format(strings.presetsImported, { count: imported.length })] });
+    } catch (e) {
+      logError("Preset Import Failed:", e);
+      setMessages({ tone: 'error', lines: [strings.presetImportFailed] });
+    }
+  };
+
+  const handleExport = () =>
+    downloadBlob(new Blob([buildPresetFile(presets)], { type: 'application/json' }), `canada-care-presets-${Date.now()}.json`);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between gap-4">
+        <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{strings.operatorSettings}</h2>
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700">{strings.close}</button>
+      </div>
+
+      {!isStaffUnlocked ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-2">
+          <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">{strings.settingsLocked}</p>
+          <div className="w-72">
+            <StaffUnlockForm strings={strings} onUnlock={onUnlock} />
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-5 overflow-hidden">
+          <div className="col-span-2 border-r border-slate-100 flex flex-col overflow-hidden">
+            <ul className="flex-1 overflow-y-auto">
+              {presets.map(preset => (
+                <li key={preset.id}>
+                  <button
+                    onClick={() => { setDraft(preset); setMessages(null); }}
+                    className={`w-full text-left px-6 py-4 border-b border-slate-50 hover:bg-slate-50 ${draft.id === preset.id ? 'bg-indigo-50/60' : ''}`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-black text-slate-700">{preset.name}</span>
+                      {activeId === preset.id && (
+                        <span className="text-[9px] font-black uppercase px-2 py-0.5 rounded-full border bg-emerald-50 text-emerald-700 border-emerald-100">{strings.presetActive}</span>
+                      )}
+                    </div>
+                    <span className="text-[10px] font-mono font-bold text-slate-400">
+                      v{preset.version} · {preset.model} · {preset.voice || strings.voiceDefault}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-4 border-t border-slate-100 grid grid-cols-3 gap-2">
+              <button onClick={handleNew} className="py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100">{strings.newPreset}</button>
+              <button onClick={() => fileInputRef.current?.click()} className="py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100">{strings.importPresets}</button>
+              <button onClick={handleExport} className="py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100">{strings.exportPresets}</button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImport(file);
+                }}
+              />
+            </div>
+          </div>
+
+          <section className="col-span-3 overflow-y-auto p-6 space-y-4">
+            {messages && (
+              <div className={`px-4 py-3 rounded-2xl border text-[11px] font-bold space-y-1 ${messages.tone === 'error' ? 'bg-rose-50 text-rose-700 border-rose-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>
+                {messages.lines.map((line, i) => <p key={i}>{line}</p>)}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <label>
+                <span className={LABEL_CLASS}>{strings.presetName}</span>
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} className={FIELD_CLASS} />
+              </label>
+              <label>
+                <span className={LABEL_CLASS}>{strings.model}</span>
+                <select value={draft.model} onChange={e => update({ model: e.target.value })} className={FIELD_CLASS}>
+                  {LIVE_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </label>
+              <label>
+                <span className={LABEL_CLASS}>{strings.voice}</span>
+                <select value={draft.voice} onChange={e => update({ voice: e.target.value })} className={FIELD_CLASS}>
+                  <option value="">{strings.voiceDefault}</option>
+                  {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <label className="block">
+              <span className={LABEL_CLASS}>{strings.persona}</span>
+              <textarea value={draft.persona} onChange={e => update({ persona: e.target.value })} rows={3} className={FIELD_CLASS} />
+              <span className="text-[10px] font-bold text-slate-400">{strings.personaHint}</span>
+            </label>
+
+            <label className="block">
+              <span className={LABEL_CLASS}>{strings.turnTaking}</span>
+              <textarea value={draft.turnTaking} onChange={e => update({ turnTaking: e.target.value })} rows={5} className={FIELD_CLASS} />
+            </label>
+
+            <div>
+              <span className={LABEL_CLASS}>{strings.vad}</span>
+              <div className="grid grid-cols-4 gap-3">
+                <label>
+                  <span className={LABEL_CLASS}>{strings.vadStart}</span>
+                  <select value={draft.vad.startSensitivity} onChange={e => updateVad({ startSensitivity: e.target.value as VadSensitivity })} className={FIELD_CLASS}>
+                    {SENSITIVITIES.map(s => <option key={s} value={s}>{strings[`sensitivity_${s}`]}</option>)}
+                  </select>
+                </label>
+                <label>
+                  <span className={LABEL_CLASS}>{strings.vadEnd}</span>
+                  <select value={draft.vad.endSensitivity} onChange={e => updateVad({ endSensitivity: e.target.value as VadSensitivity })} className={FIELD_CLASS}>
+                    {SENSITIVITIES.map(s => <option key={s} value={s}>{strings[`sensitivity_${s}`]}</option>)}
+                  </select>
+                </label>
+                <label>
+                  <span className={LABEL_CLASS}>{strings.vadPrefixPadding}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.vad.prefixPaddingMs ?? ''}
+                    placeholder={strings.sensitivity_default}
+                    onChange={e => updateVad({ prefixPaddingMs: optionalMs(e.target.value) })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+                <label>
+                  <span className={LABEL_CLASS}>{strings.vadSilenceDuration}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.vad.silenceDurationMs ?? ''}
+                    placeholder={strings.sensitivity_default}
+                    onChange={e => updateVad({ silenceDurationMs: optionalMs(e.target.value) })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+              </div>
+            </div>
+
+            {draftErrors.length > 0 && (
+              <ul className="text-[10px] font-bold text-rose-600 space-y-0.5">
+                {draftErrors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || draftErrors.length > 0}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-30"
+              >
+                {strings.savePreset}
+              </button>
+              <button
+                onClick={handleUse}
+                disabled={isDirty || activeId === draft.id}
+                className="px-4 py-2 bg-emerald-50 text-emerald-700 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-emerald-100 hover:bg-emerald-100 disabled:opacity-30"
+              >
+                {strings.usePreset}
+              </button>
+              <button
+                onClick={() => setShowPreview(open => !open)}
+                className="px-4 py-2 bg-slate-50 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 hover:bg-slate-100"
+              >
+                {showPreview ? strings.hidePreview : strings.previewInstruction}
+              </button>
+              {draft.id !== DEFAULT_PRESET_ID && stored && (
+                <button onClick={handleDelete} className="ml-auto px-4 py-2 bg-rose-50 text-rose-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-rose-100 hover:bg-rose-100">{strings.delete}</button>
+              )}
+            </div>
+            <p className="text-[10px] font-bold text-slate-400">{strings.presetAppliesNextCall}</p>
+
+            {showPreview && (
+              <pre className="p-4 bg-slate-50 border border-slate-200 rounded-2xl text-[11px] leading-relaxed text-slate-700 whitespace-pre-wrap font-mono">{preview.trim()}</pre>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsConsole;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { EscalationEvent } from '../types';
+import { Strings } from '../utils/i18n';
+
+interface StaffAlertBannerProps {
+  alerts: EscalationEvent[];
+  isTransferred: boolean;
+  strings: Strings;
+  onAcknowledge: () => void;
+  onResume: () => void;
+}
+
+const StaffAlertBanner: React.FC<StaffAlertBannerProps> = ({ alerts, isTransferred, strings, onAcknowledge, onResume }) => {
+  const latest = alerts[alerts.length - 1];
+  if (!latest && !isTransferred) return null;
+
+  return (
+    <div role="alert" className="border-b border-rose-200">
+      {latest && (
+        <div className="px-8 py-4 bg-rose-600 text-white flex items-center gap-4 animate-in fade-in slide-in-from-top-1">
+          <div className="w-3 h-3 rounded-full bg-white animate-ping shrink-0" />
+          <div className="flex-1 min-w-0">
+            <span className="text-[9px] font-black uppercase tracking-widest block opacity-80">
+              {strings.staffAlert} · {strings[`escalationSource_${latest.source}`]} · {latest.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              {alerts.length > 1 ? ` · +${alerts.length - 1}` : ''}
+            </span>
+            <span className="text-sm font-black block">
+              {strings.possibleEmergency}: {latest.category ? strings[`redFlag_${latest.category}`] : ''}
+            </span>
+            {latest.detail && <span className="text-xs font-bold opacity-90 block truncate">“{latest.detail}”</span>}
+          </div>
+          <button
+            onClick={onAcknowledge}
+            className="px-4 py-2 bg-white text-rose-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-50 shrink-0"
+          >
+            {strings.acknowledge}
+          </button>
+        </div>
+      )}
+      {isTransferred && (
+        <div className="px-8 py-3 bg-amber-50 flex items-center gap-4">
+          <div className="w-2 h-2 rounded-full bg-amber-500 animate-pulse shrink-0" />
+          <span className="flex-1 text-[10px] font-black text-amber-700 uppercase tracking-widest">{strings.awaitingStaff}</span>
+          <button
+            onClick={onResume}
+            className="px-4 py-2 bg-white text-amber-700 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-amber-200 hover:bg-amber-100 shrink-0"
+          >
+            {strings.resumeAgent}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffAlertBanner;
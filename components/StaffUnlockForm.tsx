@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { format, Strings } from '../utils/i18n';
+import { getStaffPinLockout, isStaffPinConfigured } from '../utils/staffAccess';
+
+interface StaffUnlockFormProps {
+  strings: Strings;
+  /** Resolves to whether the PIN was accepted. */
+  onUnlock: (pin: string) => Promise<boolean>;
+}
+
+const StaffUnlockForm: React.FC<StaffUnlockFormProps> = ({ strings, onUnlock }) => {
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRejected, setIsRejected] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(getStaffPinLockout);
+  const isLocked = lockedUntil !== null && lockedUntil.getTime() > Date.now();
+
+  // Re-enable entry when the lockout ends.
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setTimeout(() => {
+      setLockedUntil(null);
+      setIsRejected(false);
+    }, Math.max(0, lockedUntil.getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  if (!isStaffPinConfigured()) {
+    return <p className="px-4 py-2 text-[10px] font-bold text-slate-400 leading-relaxed">{strings.staffPinNotConfigured}</p>;
+  }
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    const accepted = await onUnlock(pin);
+    setIsChecking(false);
+    setIsRejected(!accepted);
+    setLockedUntil(getStaffPinLockout());
+    setPin('');
+  };
+
+  return (
+    <form onSubmit={submit} className="px-4 py-2 space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={e => setPin(e.target.value)}
+          disabled={isLocked}
+          placeholder={strings.staffPin}
+          aria-label={strings.staffPin}
+          className="flex-1 min-w-0 px-3 py-1.5 rounded-xl border border-slate-200 bg-slate-50 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-300"
+        />
+        <button
+          type="submit"
+          disabled={!pin || isChecking || isLocked}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-30"
+        >
+          {strings.unlock}
+        </button>
+      </div>
+      {isLocked ? (
+        <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest">
+          {format(strings.staffPinLocked, { time: lockedUntil!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) })}
+        </p>
+      ) : isRejected && <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest">{strings.staffPinInvalid}</p>}
+    </form>
+  );
+};
+
+export default StaffUnlockForm;
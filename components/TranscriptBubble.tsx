@@ -0,0 +1,45 @@
+import React from 'react';
+import { Strings } from '../utils/i18n';
+
+interface TranscriptBubbleProps {
+  side: 'user' | 'agent';
+  text: string;
+  strings: Strings;
+  /** Omitted for a live caption that is still being spoken. */
+  timestamp?: Date;
+  typed?: boolean;
+  interrupted?: boolean;
+}
+
+const TranscriptBubble: React.FC<TranscriptBubbleProps> = ({ side, text, strings, timestamp, typed, interrupted }) => {
+  const isLive = !timestamp;
+
+  return (
+    <div className={`flex ${side === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-3 duration-500`}>
+      <div className={`max-w-[80%] px-6 py-4 rounded-3xl shadow-sm border ${
+        side === 'user'
+          ? 'bg-indigo-600 text-white border-indigo-500 rounded-tr-none'
+          : 'bg-white text-slate-700 border-slate-200 rounded-tl-none'
+      } ${isLive ? 'opacity-70' : ''}`}>
+        <span className={`text-[9px] font-black uppercase tracking-widest block mb-2 opacity-60 ${side === 'user' ? 'text-indigo-200' : 'text-slate-400'}`}>
+          {side === 'user' ? strings.patient : strings.receptionist}{typed ? ` · ${strings.typed}` : ''}{isLive ? ` · ${strings.live}` : ''}
+        </span>
+        <p className="text-sm font-bold leading-relaxed">
+          {text}
+          {isLive && <span className="inline-block w-1.5 h-3.5 ml-1 align-middle bg-current opacity-50 animate-pulse" />}
+          {interrupted && <span className="ml-1 opacity-50">—</span>}
+        </p>
+        {timestamp && (
+          <span className="text-[8px] opacity-40 mt-3 flex justify-end items-center gap-2 font-mono font-black">
+            {interrupted && (
+              <span className="px-1.5 py-0.5 rounded-full border border-current uppercase tracking-widest">{strings.interrupted}</span>
+            )}
+            {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptBubble;
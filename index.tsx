@@ -1,7 +1,9 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadHospitalProfile } from './utils/hospitalProfile';
+import { createGenAiTransport, createTokenTransport, LiveTransport } from './utils/liveTransport';
+import { createScriptedTransport, loadLiveScript } from './utils/scriptedTransport';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,36 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+/** `?transport=scripted&script=<name>` replays a local script instead of calling Gemini. */
+async function loadTransport(search: string): Promise<LiveTransport> {
+  const params = new URLSearchParams(search);
+  if (params.get('transport') === 'scripted') {
+    return createScriptedTransport(await loadLiveScript(params.get('script') || 'booking-en'));
+  }
+  if (process.env.LIVE_TOKEN_URL) return createTokenTransport(process.env.LIVE_TOKEN_URL);
+  if (process.env.API_KEY) return createGenAiTransport(process.env.API_KEY);
+  throw new Error('No Live API credentials configured. Set LIVE_TOKEN_URL to the token broker, or GEMINI_API_KEY for local development.');
+}
+
+Promise.all([loadHospitalProfile(), loadTransport(window.location.search)])
+  .then(([profile, transport]) => {
+    document.title = `${profile.name} - AI Receptionist`;
+    root.render(
+      <React.StrictMode>
+        <App profile={profile} transport={transport} />
+      </React.StrictMode>
+    );
+  })
+  .catch((err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err);
+    root.render(
+      <div className="min-h-screen flex items-center justify-center p-8 bg-slate-100">
+        <div className="max-w-xl bg-white rounded-3xl p-8 shadow-xl border border-rose-200">
+          <h1 className="text-sm font-black text-rose-600 uppercase tracking-widest mb-4">Startup Failed</h1>
+          <pre className="text-xs font-mono text-slate-700 whitespace-pre-wrap">{message}</pre>
+        </div>
+      </div>
+    );
+    throw err;
+  });
@@ -0,0 +1,88 @@
+/**
+ * Captures mono microphone audio, resamples it from the context rate to
+ * `targetRate`, converts it to clipped Int16 PCM and posts fixed-size chunks
+ * (transferred ArrayBuffers) to the main thread.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate = 16000, chunkSamples = 1600 } = options.processorOptions || {};
+    this.ratio = sampleRate / targetRate;
+    this.chunkSamples = chunkSamples;
+    this.chunk = new Int16Array(chunkSamples);
+    this.chunkLength = 0;
+
+    // Windowed-sinc low-pass, only needed when downsampling.
+    this.taps = this.ratio > 1 ? buildLowPass(0.45 / this.ratio, 31) : new Float32Array([1]);
+    this.history = new Float32Array(this.taps.length - 1);
+
+    // Fractional read position into the filtered stream, relative to the
+    // first sample of the next block. A value in (-1, 0) interpolates
+    // against the last sample of the previous block.
+    this.position = 0;
+    this.lastSample = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const filtered = this.filter(input);
+    const length = filtered.length;
+    while (this.position <= length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : filtered[index];
+      const b = index + 1 < length ? filtered[index + 1] : a;
+      this.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= length;
+    this.lastSample = filtered[length - 1];
+    return true;
+  }
+
+  filter(input) {
+    const taps = this.taps;
+    if (taps.length === 1) return input;
+    const historyLength = this.history.length;
+    const padded = new Float32Array(historyLength + input.length);
+    padded.set(this.history);
+    padded.set(input, historyLength);
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let acc = 0;
+      for (let t = 0; t < taps.length; t++) acc += padded[i + t] * taps[t];
+      out[i] = acc;
+    }
+    this.history = padded.slice(padded.length - historyLength);
+    return out;
+  }
+
+  push(sample) {
+    const s = sample > 1 ? 1 : sample < -1 ? -1 : sample;
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.chunkLength === this.chunkSamples) {
+      const out = this.chunk.slice();
+      this.port.postMessage(out.buffer, [out.buffer]);
+      this.chunkLength = 0;
+    }
+  }
+}
+
+function buildLowPass(cutoff, length) {
+  const taps = new Float32Array(length);
+  const mid = (length - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const x = i - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1));
+    taps[i] = sinc * window;
+    sum += taps[i];
+  }
+  for (let i = 0; i < length; i++) taps[i] /= sum;
+  return taps;
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);
@@ -0,0 +1,20 @@
+/**
+ * Prints the STAFF_PIN_HASH value for a staff PIN, for `.env.local`.
+ *
+ * Usage: npm run hash-staff-pin -- <pin>
+ *
+ * Keep the format in sync with parsePinHash in utils/staffAccess.ts.
+ */
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+const ITERATIONS = 600_000;
+
+const pin = process.argv[2];
+if (!pin) {
+  console.error('Usage: npm run hash-staff-pin -- <pin>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = pbkdf2Sync(pin, salt, ITERATIONS, 32, 'sha256');
+console.log(`pbkdf2-sha256$${ITERATIONS}$${salt.toString('hex')}$${hash.toString('hex')}`);
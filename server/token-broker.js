@@ -0,0 +1,211 @@
+/**
+ * Ephemeral token broker for the Live API.
+ *
+ * Holds the real GEMINI_API_KEY server-side and mints short-lived, single-use
+ * tokens locked to one of the receptionist models, so the key never reaches
+ * the browser. The client sends the system instruction and tools it will
+ * connect with; they are checked against the receptionist's tool list and
+ * locked into the token, so a leaked token cannot open a session with other
+ * instructions or tools. Run with `npm run token-broker`.
+ *
+ * Environment:
+ *   GEMINI_API_KEY          required
+ *   TOKEN_BROKER_PORT       default 8787
+ *   ALLOWED_ORIGIN          CORS origin allowed to request tokens (default: same origin only)
+ *   RATE_LIMIT_PER_MINUTE   tokens per client IP per minute (default 10)
+ *   AUDIT_LOG               file to append JSON audit lines to (default: stdout)
+ *   TRUST_PROXY             "true" to take the client IP from the address the proxy
+ *                           appends to X-Forwarded-For
+ */
+import { appendFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { GoogleGenAI, Modality } from '@google/genai';
+
+// Keep in sync with LIVE_MODEL and LIVE_MODELS in utils/liveTransport.ts.
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const LIVE_MODELS = [LIVE_MODEL, 'gemini-live-2.5-flash-preview', 'gemini-2.0-flash-live-001'];
+// Keep in sync with the function declarations App.tsx can send.
+const TOOL_NAMES = [
+  'check_availability', 'hold_slot', 'book_appointment',
+  'find_appointments', 'reschedule_appointment', 'cancel_appointment',
+  'update_appointment_draft', 'record_intake', 'request_callback',
+  'report_emergency', 'transfer_to_staff', 'record_consent',
+];
+// Fields locked to the values in the token, besides model and response modality.
+const LOCKED_FIELDS = ['systemInstruction', 'tools'];
+const MAX_BODY_BYTES = 256 * 1024;
+
+const TOKEN_TTL_MS = 30 * 60_000;
+const NEW_SESSION_WINDOW_MS = 60_000;
+const RATE_WINDOW_MS = 60_000;
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set; refusing to start the token broker.');
+  process.exit(1);
+}
+
+const port = Number(process.env.TOKEN_BROKER_PORT || 8787);
+const allowedOrigin = process.env.ALLOWED_ORIGIN || '';
+const rateLimit = Number(process.env.RATE_LIMIT_PER_MINUTE || 10);
+const auditLog = process.env.AUDIT_LOG || '';
+const trustProxy = process.env.TRUST_PROXY === 'true';
+
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+/** @type {Map<string, number[]>} */
+const requestTimes = new Map();
+
+/** Keyed on the IP only: the X-Client-Id header is chosen by the caller and only logged. */
+function isRateLimited(ip, now) {
+  const recent = (requestTimes.get(ip) || []).filter(t => now - t < RATE_WINDOW_MS);
+  const limited = recent.length >= rateLimit;
+  if (!limited) recent.push(now);
+  requestTimes.set(ip, recent);
+  return limited;
+}
+
+// Drop idle clients so the map does not grow without bound.
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, times] of requestTimes) {
+    if (times.every(t => now - t >= RATE_WINDOW_MS)) requestTimes.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+async function audit(entry) {
+  const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+  if (!auditLog) {
+    console.log(line);
+    return;
+  }
+  try {
+    await appendFile(auditLog, line + '\n');
+  } catch (e) {
+    console.error('Audit log write failed:', e.message);
+    console.log(line);
+  }
+}
+
+/**
+ * The trusted proxy appends the address it saw to X-Forwarded-For; earlier
+ * entries come from the client and can be forged, so only the last is used.
+ */
+function clientIp(req) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',').pop().trim() || req.socket.remoteAddress || 'unknown';
+  return req.socket.remoteAddress || 'unknown';
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...(allowedOrigin ? { 'Access-Control-Allow-Origin': allowedOrigin, Vary: 'Origin' } : {}),
+  });
+  res.end(JSON.stringify(body));
+}
+
+/** Only function declarations the receptionist knows, in the shape App sends them. */
+function isAllowedTools(tools) {
+  return Array.isArray(tools) && tools.every(tool =>
+    tool && typeof tool === 'object' && Object.keys(tool).every(k => k === 'functionDeclarations') &&
+    Array.isArray(tool.functionDeclarations) &&
+    tool.functionDeclarations.every(d => d && TOOL_NAMES.includes(d.name)));
+}
+
+/**
+ * The model (or the default) and the session config to lock from the request
+ * body, or a reason the request is refused.
+ */
+async function readRequest(req) {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) return { error: 'body' };
+  }
+  let parsed;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { error: 'body' };
+  }
+  const model = parsed?.model ?? LIVE_MODEL;
+  if (!LIVE_MODELS.includes(model)) return { error: 'model' };
+  const { systemInstruction, tools } = parsed?.config ?? {};
+  if (typeof systemInstruction !== 'string' || !systemInstruction.trim()) return { error: 'config' };
+  if (!isAllowedTools(tools)) return { error: 'config' };
+  return { model, config: { systemInstruction, tools } };
+}
+
+async function mintToken(model, { systemInstruction, tools }) {
+  const now = Date.now();
+  const expireTime = new Date(now + TOKEN_TTL_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime,
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      liveConnectConstraints: {
+        model,
+        config: { responseModalities: [Modality.AUDIO], systemInstruction, tools },
+      },
+      // Voice, VAD, transcription and resumption stay with the client; locking
+      // every field would also pin the resumption handle a reconnect needs.
+      lockAdditionalFields: LOCKED_FIELDS,
+    },
+  });
+  return { token: token.name, model, expiresAt: expireTime };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS' && allowedOrigin) {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'Content-Type, X-Client-Id',
+      'Access-Control-Max-Age': '600',
+    });
+    res.end();
+    return;
+  }
+
+  if (url.pathname !== '/api/live-token') return send(res, 404, { error: 'Not found' });
+  if (req.method !== 'POST') return send(res, 405, { error: 'Use POST' });
+
+  const ip = clientIp(req);
+  const clientId = String(req.headers['x-client-id'] || '').slice(0, 64);
+  const origin = req.headers.origin || '';
+
+  if (allowedOrigin && origin && origin !== allowedOrigin) {
+    await audit({ event: 'token_denied', reason: 'origin', ip, clientId, origin });
+    return send(res, 403, { error: 'Origin not allowed' });
+  }
+
+  if (isRateLimited(ip, Date.now())) {
+    await audit({ event: 'token_denied', reason: 'rate_limited', ip, clientId });
+    res.setHeader('Retry-After', String(RATE_WINDOW_MS / 1000));
+    return send(res, 429, { error: 'Too many token requests' });
+  }
+
+  const request = await readRequest(req);
+  if (request.error) {
+    await audit({ event: 'token_denied', reason: request.error, ip, clientId });
+    return send(res, 400, { error: request.error === 'model' ? 'Model not allowed' : 'Invalid session config' });
+  }
+
+  try {
+    const result = await mintToken(request.model, request.config);
+    await audit({ event: 'token_issued', ip, clientId, model: result.model, expiresAt: result.expiresAt });
+    send(res, 200, result);
+  } catch (e) {
+    await audit({ event: 'token_error', ip, clientId, message: e instanceof Error ? e.message : String(e) });
+    send(res, 502, { error: 'Token service unavailable' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Token broker listening on http://localhost:${port}/api/live-token`);
+});
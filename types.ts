@@ -3,17 +3,307 @@ export enum AppStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
+export type Language = 'en-CA' | 'fr-CA';
+
 export interface TranscriptionEntry {
   type: 'user' | 'agent';
   text: string;
   timestamp: Date;
+  /** Offsets from the start of the call, in milliseconds. */
+  startMs: number;
+  endMs: number;
+  /** Set on caller turns entered in the chat box rather than spoken. */
+  typed?: boolean;
+  /** Set on agent turns the caller talked over; `text` is what was played. */
+  interrupted?: boolean;
 }
 
+/** How the caller talks to the receptionist. */
+export type InputMode = 'voice' | 'text';
+
+/** How the receptionist answers: spoken with captions, or captions only. */
+export type ReplyMode = 'audio' | 'text';
+
+/** Two-letter code of a Canadian province or territory. */
+export type Province = 'AB' | 'BC' | 'MB' | 'NB' | 'NL' | 'NS' | 'NT' | 'NU' | 'ON' | 'PE' | 'QC' | 'SK' | 'YT';
+
 export interface HospitalConfig {
   name: string;
+  /** Spoken summary of the opening hours; `openingHours` is what bookings are checked against. */
   hours: string;
   departments: string[];
 }
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** One day's opening hours as 24-hour "HH:MM" times in the site's time zone. */
+export interface OpeningHours {
+  open: string;
+  close: string;
+}
+
+/** Days left out are closed. */
+export type WeeklyHours = Partial<Record<Weekday, OpeningHours>>;
+
+export interface Clinician {
+  name: string;
+  title: string;
+  department: string;
+}
+
+export type IntakeFieldType = 'text' | 'integer' | 'boolean' | 'date' | 'choice';
+
+export type IntakeValue = string | number | boolean;
+
+/** One question on a department's intake form. */
+export interface IntakeField {
+  /** Stable id, e.g. "guardian_name"; the FHIR linkId. */
+  id: string;
+  /** The question, as staff would ask it. */
+  label: string;
+  type: IntakeFieldType;
+  required?: boolean;
+  /** Allowed answers for "choice" fields. */
+  options?: string[];
+  /** Bounds for "integer" fields. */
+  min?: number;
+  max?: number;
+  /** Identifies a person, so it is masked with other patient details. */
+  phi?: boolean;
+  /** Skip the question unless an earlier field has this answer. */
+  askIf?: { field: string; equals: IntakeValue };
+}
+
+export interface IntakeForm {
+  /** Stable id, used as the FHIR Questionnaire reference. */
+  id: string;
+  title: string;
+  fields: IntakeField[];
+}
+
+/** Intake answers collected during a call. */
+export interface IntakeResponse {
+  department: string;
+  /** The form as it was when the call took place. */
+  form: IntakeForm;
+  answers: Record<string, IntakeValue>;
+  /** Every required question that applies has an answer. */
+  complete: boolean;
+  updatedAt: Date;
+}
+
+export interface HospitalProfile extends HospitalConfig {
+  id: string;
+  shortName: string;
+  /** Selects the health card formats and other province-specific PHI rules. */
+  province: Province;
+  /** IANA time zone the hours are given in, e.g. "America/Toronto". */
+  timeZone: string;
+  openingHours: WeeklyHours;
+  /** Departments whose hours differ from the site's. */
+  departmentHours?: Record<string, WeeklyHours>;
+  /** Also close on federal statutory holidays that are not statutory in the province. */
+  observesFederalHolidays?: boolean;
+  address: string;
+  phone: string;
+  departmentLabels: Record<string, string>;
+  clinicians: Clinician[];
+  policies: string[];
+  /** Extra questions asked when booking with a department, keyed by department. */
+  intakeForms?: Record<string, IntakeForm>;
+}
+
+export interface AppointmentSlot {
+  id: string;
+  department: string;
+  date: string;
+  time: string;
+}
+
+export interface Appointment {
+  id: string;
+  slotId: string;
+  patientName: string;
+  department: string;
+  date: string;
+  time: string;
+  phone: string;
+  /** YYYY-MM-DD; lets a caller verify with their date of birth instead of their name. */
+  dateOfBirth?: string;
+  createdAt: Date;
+  /** Set once cancelled. The slot is free again but the booking is kept. */
+  cancelledAt?: Date;
+}
+
+export type AppointmentChangeKind = 'rescheduled' | 'cancelled';
+
+/** A change made to an existing appointment during a call, as it was before and after. */
+export interface AppointmentChange {
+  kind: AppointmentChangeKind;
+  before: Appointment;
+  after: Appointment;
+  at: Date;
+}
+
+/** Taken instead of a booking when a call comes in outside opening hours. */
+export interface CallbackRequest {
+  id: string;
+  patientName: string;
+  phone: string;
+  reason: string;
+  preferredTime: string;
+  createdAt: Date;
+}
+
+export type DraftFieldStatus = 'unconfirmed' | 'confirmed' | 'changed';
+
+export type AppointmentDraftField = 'patientName' | 'department' | 'date' | 'time' | 'phone';
+
+export interface DraftField {
+  value: string;
+  status: DraftFieldStatus;
+  updatedAt: Date;
+}
+
+export type AppointmentDraft = Partial<Record<AppointmentDraftField, DraftField>>;
+
+export type RedFlagCategory = 'cardiac' | 'stroke' | 'breathing' | 'bleeding' | 'overdose' | 'unresponsive' | 'self_harm';
+
+export type EscalationSource = 'transcript' | 'agent' | 'operator';
+
+export interface EscalationEvent {
+  kind: 'red_flag' | 'transfer';
+  category?: RedFlagCategory;
+  source: EscalationSource;
+  /** Caller's words or the agent's summary; empty on saved calls without consent to store call content. */
+  detail: string;
+  at: Date;
+}
+
+export type RecordingFormat = 'wav' | 'webm';
+
+export interface RecordingSettings {
+  format: RecordingFormat;
+  /** Also keep the patient and agent sides as separate mono files. */
+  stems: boolean;
+}
+
+/** 'default' leaves the setting to the Live API. */
+export type VadSensitivity = 'default' | 'high' | 'low';
+
+/** The Live API's automatic activity detection, which decides when the caller has finished a turn. */
+export interface VadSettings {
+  startSensitivity: VadSensitivity;
+  endSensitivity: VadSensitivity;
+  /** Speech needed before a turn starts; null for the API default. */
+  prefixPaddingMs: number | null;
+  /** Silence needed before a turn ends; null for the API default. */
+  silenceDurationMs: number | null;
+}
+
+/** A named receptionist configuration edited in the settings console. */
+export interface AgentPreset {
+  id: string;
+  name: string;
+  /** Raised whenever the saved configuration changes. */
+  version: number;
+  /** ISO timestamp of the last save. */
+  updatedAt: string;
+  model: string;
+  /** Prebuilt voice name; empty for the language's default voice. */
+  voice: string;
+  /** Opening of the system instruction. `{hospital}` is replaced with the site name. */
+  persona: string;
+  /** Pace and turn-taking guidance given to the model. */
+  turnTaking: string;
+  vad: VadSettings;
+}
+
+/** Silence and duration limits enforced by the client. */
+export interface CallLimitSettings {
+  /** Seconds of silence before the receptionist asks if the caller is still there; 0 turns the prompt off. */
+  stillThereAfterSec: number;
+  /** Seconds of silence before the call is ended; 0 never ends it. */
+  hangUpAfterSec: number;
+  /** What the receptionist asks; empty uses the default for the call's language. */
+  stillTherePrompt: string;
+  /** Longest a call may run, in minutes; 0 means no limit. */
+  maxCallMinutes: number;
+  /** How long before the limit the caller is warned, in seconds. */
+  warnBeforeEndSec: number;
+}
+
+export type AutoHangupReason = 'silence' | 'max_duration';
+
+export type ConsentDecision = 'pending' | 'granted' | 'refused' | 'not_required';
+
+export interface RecordingConsent {
+  decision: ConsentDecision;
+  decidedAt: Date | null;
+  source?: 'agent' | 'operator';
+}
+
+/** Kinds of personal health information the redactor detects. */
+/** `date` only labels values known to be dates, such as intake answers; free text is never matched as one. */
+export type PhiKind = 'name' | 'phone' | 'dob' | 'healthCard' | 'email' | 'address' | 'date';
+
+/** Redacted exports are the default; full exports need a staff unlock. */
+export type ExportPrivacy = 'redacted' | 'full';
+
+/** Quality measures gathered while a call runs, stored with it. */
+export interface CallMetrics {
+  /** End of each patient turn to the start of the agent's reply audio, in order. */
+  latenciesMs: number[];
+  /** Agent turns the caller talked over. */
+  interruptions: number;
+  patientTurns: number;
+  agentTurns: number;
+  patientTalkMs: number;
+  agentTalkMs: number;
+  reconnects: number;
+  /** Session errors and failed connects. */
+  errors: number;
+  /** The call ended with at least one booking confirmed by the schedule store. */
+  bookingCompleted: boolean;
+}
+
+export type CallOutcome = 'booked' | 'changed' | 'callback' | 'completed' | 'failed';
+
+export interface CallRecord {
+  id: string;
+  siteId: string;
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+  outcome: CallOutcome;
+  language: Language;
+  transcriptions: TranscriptionEntry[];
+  appointments: Appointment[];
+  /** Existing appointments the caller moved or cancelled. */
+  changes: AppointmentChange[];
+  /** Taken in after-hours mode. */
+  callbacks: CallbackRequest[];
+  intakes: IntakeResponse[];
+  /** The site's IANA time zone, which appointment dates and times are given in. */
+  timeZone: string;
+  draft: AppointmentDraft;
+  escalations: EscalationEvent[];
+  /** How long after `startedAt` the recording begins, to line entries up with it. */
+  recordingOffsetMs: number;
+  /** Without consent the recording and transcript are not stored. */
+  consent: RecordingConsent;
+  /** Total time nobody spoke, counting only pauses of two seconds or more. */
+  silenceMs: number;
+  /** Set when the client ended the call itself. */
+  autoHangup?: AutoHangupReason;
+  metrics: CallMetrics;
+  /** The receptionist configuration the call ran with, as it was at the time. */
+  preset: AgentPreset;
+  /** Stereo: patient on the left channel, agent on the right. */
+  recording: Blob | null;
+  stems: { patient: Blob; agent: Blob } | null;
+}
@@ -0,0 +1,51 @@
+import { StartSensitivity } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { buildActivityDetection, buildPresetFile, DEFAULT_PRESET, DEFAULT_VAD, parsePresetFile, validatePreset } from './agentPresets';
+
+describe('validatePreset', () => {
+  it('accepts the default preset', () => {
+    expect(validatePreset(DEFAULT_PRESET)).toEqual([]);
+  });
+
+  it('names each problem with the preset', () => {
+    const preset = { ...DEFAULT_PRESET, name: 'Night', model: 'unknown-model', voice: 'Nobody', vad: { ...DEFAULT_VAD, silenceDurationMs: -5 } };
+
+    expect(validatePreset(preset)).toEqual([
+      '"Night": model "unknown-model" is not supported',
+      '"Night": voice "Nobody" is not supported',
+      '"Night": vad.silenceDurationMs must be null or a whole number of ms',
+    ]);
+  });
+
+  it('rejects values that are not presets', () => {
+    expect(validatePreset(null)).toEqual(['not an object']);
+    expect(validatePreset({ ...DEFAULT_PRESET, vad: undefined })).toContain('"Default": vad is missing');
+  });
+});
+
+describe('parsePresetFile', () => {
+  it('reads back an exported file', () => {
+    expect(parsePresetFile(buildPresetFile([DEFAULT_PRESET]))).toEqual({ presets: [DEFAULT_PRESET], errors: [] });
+  });
+
+  it('imports nothing when one preset is invalid', () => {
+    const file = buildPresetFile([DEFAULT_PRESET, { ...DEFAULT_PRESET, id: 'b', name: 'Broken', persona: ' ' }]);
+
+    expect(parsePresetFile(file)).toEqual({ presets: [], errors: ['"Broken": persona is empty'] });
+  });
+
+  it('rejects files in another format', () => {
+    expect(parsePresetFile('{"presets": []}').errors).toHaveLength(1);
+    expect(parsePresetFile('not json').errors).toEqual(['the file is not valid JSON']);
+  });
+});
+
+describe('buildActivityDetection', () => {
+  it('leaves API defaults out', () => {
+    expect(buildActivityDetection(DEFAULT_VAD)).toEqual({});
+    expect(buildActivityDetection({ ...DEFAULT_VAD, startSensitivity: 'low', silenceDurationMs: 800 })).toEqual({
+      startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_LOW,
+      silenceDurationMs: 800,
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { AutomaticActivityDetection, EndSensitivity, StartSensitivity } from '@google/genai';
+import { AgentPreset, VadSensitivity, VadSettings } from '../types';
+import { LIVE_MODEL, LIVE_MODELS } from './liveTransport';
+import { DEFAULT_PERSONA, DEFAULT_TURN_TAKING, VOICES } from './systemInstruction';
+
+const PRESETS_KEY = 'canada-care.agentPresets';
+const ACTIVE_PRESET_KEY = 'canada-care.activePreset';
+const FILE_FORMAT = 'canada-care.presets.v1';
+
+export const DEFAULT_PRESET_ID = 'default';
+
+export const DEFAULT_VAD: VadSettings = {
+  startSensitivity: 'default',
+  endSensitivity: 'default',
+  prefixPaddingMs: null,
+  silenceDurationMs: null,
+};
+
+export const DEFAULT_PRESET: AgentPreset = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Default',
+  version: 1,
+  updatedAt: new Date(0).toISOString(),
+  model: LIVE_MODEL,
+  voice: '',
+  persona: DEFAULT_PERSONA,
+  turnTaking: DEFAULT_TURN_TAKING,
+  vad: DEFAULT_VAD,
+};
+
+const SENSITIVITIES: VadSensitivity[] = ['default', 'high', 'low'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const isWholeNumber = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/** Problems with a preset, empty when it can be saved. */
+export function validatePreset(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isRecord(value)) return ['not an object'];
+  const label = isText(value.name) ? `"${value.name}"` : 'preset';
+  if (typeof value.id !== 'string' || !value.id) errors.push(`${label}: id is missing`);
+  if (!isText(value.name)) errors.push(`${label}: name is missing`);
+  if (!isWholeNumber(value.version, 1)) errors.push(`${label}: version must be a positive integer`);
+  if (!isOneOf(LIVE_MODELS, value.model)) errors.push(`${label}: model "${value.model}" is not supported`);
+  if (value.voice !== '' && !isOneOf(VOICES, value.voice)) errors.push(`${label}: voice "${value.voice}" is not supported`);
+  if (!isText(value.persona)) errors.push(`${label}: persona is empty`);
+  if (typeof value.turnTaking !== 'string') errors.push(`${label}: turnTaking must be text`);
+  const vad = value.vad;
+  if (!isRecord(vad)) {
+    errors.push(`${label}: vad is missing`);
+  } else {
+    if (!isOneOf(SENSITIVITIES, vad.startSensitivity)) errors.push(`${label}: vad.startSensitivity must be one of ${SENSITIVITIES.join(', ')}`);
+    if (!isOneOf(SENSITIVITIES, vad.endSensitivity)) errors.push(`${label}: vad.endSensitivity must be one of ${SENSITIVITIES.join(', ')}`);
+    for (const key of ['prefixPaddingMs', 'silenceDurationMs'] as const) {
+      if (vad[key] !== null && !isWholeNumber(vad[key], 0)) errors.push(`${label}: vad.${key} must be null or a whole number of ms`);
+    }
+  }
+  return errors;
+}
+
+const isPreset = (value: unknown): value is AgentPreset => validatePreset(value).length === 0;
+
+const sameConfig = (a: AgentPreset, b: AgentPreset) =>
+  JSON.stringify({ ...a, version: 0, updatedAt: '' }) === JSON.stringify({ ...b, version: 0, updatedAt: '' });
+
+export function getPresets(): AgentPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    const presets: AgentPreset[] = Array.isArray(stored) ? stored.filter(isPreset) : [];
+    return presets.some(p => p.id === DEFAULT_PRESET_ID) ? presets : [DEFAULT_PRESET, ...presets];
+  } catch {
+    return [DEFAULT_PRESET];
+  }
+}
+
+function setPresets(presets: AgentPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Saves a preset and returns it as stored. A changed configuration always
+ * gets a version above the one it replaces, so call records that name a
+ * version never point at two different configurations.
+ */
+export function savePreset(preset: AgentPreset): AgentPreset {
+  const presets = getPresets();
+  const existing = presets.find(p => p.id === preset.id);
+  if (existing && sameConfig(existing, preset)) return existing;
+  const saved: AgentPreset = {
+    ...preset,
+    name: preset.name.trim(),
+    version: existing ? Math.max(existing.version + 1, preset.version) : preset.version,
+    updatedAt: new Date().toISOString(),
+  };
+  setPresets(existing ? presets.map(p => (p.id === saved.id ? saved : p)) : [...presets, saved]);
+  return saved;
+}
+
+export function deletePreset(id: string) {
+  if (id === DEFAULT_PRESET_ID) return;
+  setPresets(getPresets().filter(p => p.id !== id));
+  if (getActivePresetId() === id) setActivePresetId(DEFAULT_PRESET_ID);
+}
+
+export function getActivePresetId(): string {
+  return localStorage.getItem(ACTIVE_PRESET_KEY) || DEFAULT_PRESET_ID;
+}
+
+export function setActivePresetId(id: string) {
+  localStorage.setItem(ACTIVE_PRESET_KEY, id);
+}
+
+/** The preset the next call uses. */
+export function getActivePreset(): AgentPreset {
+  const presets = getPresets();
+  return presets.find(p => p.id === getActivePresetId()) ?? presets.find(p => p.id === DEFAULT_PRESET_ID) ?? DEFAULT_PRESET;
+}
+
+/** A fresh, unsaved preset based on `from`. */
+export function newPreset(from: AgentPreset, name: string): AgentPreset {
+  return { ...from, id: crypto.randomUUID(), name, version: 1, updatedAt: new Date().toISOString() };
+}
+
+export function buildPresetFile(presets: AgentPreset[]): string {
+  return JSON.stringify({ format: FILE_FORMAT, presets }, null, 2);
+}
+
+/**
+ * Reads an exported preset file. Nothing is imported unless every preset in
+ * it is valid.
+ */
+export function parsePresetFile(text: string): { presets: AgentPreset[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { presets: [], errors: ['the file is not valid JSON'] };
+  }
+  if (!isRecord(data) || data.format !== FILE_FORMAT || !Array.isArray(data.presets)) {
+    return { presets: [], errors: [`expected a "${FILE_FORMAT}" file with a presets list`] };
+  }
+  const candidates: unknown[] = data.presets;
+  const errors = candidates.flatMap(validatePreset);
+  return errors.length > 0 ? { presets: [], errors } : { presets: candidates.filter(isPreset), errors: [] };
+}
+
+const START_SENSITIVITY: Record<Exclude<VadSensitivity, 'default'>, StartSensitivity> = {
+  high: StartSensitivity.START_SENSITIVITY_HIGH,
+  low: StartSensitivity.START_SENSITIVITY_LOW,
+};
+
+const END_SENSITIVITY: Record<Exclude<VadSensitivity, 'default'>, EndSensitivity> = {
+  high: EndSensitivity.END_SENSITIVITY_HIGH,
+  low: EndSensitivity.END_SENSITIVITY_LOW,
+};
+
+/** The `realtimeInputConfig.automaticActivityDetection` for a preset; API defaults are left out. */
+export function buildActivityDetection(vad: VadSettings): AutomaticActivityDetection {
+  return {
+    ...(vad.startSensitivity !== 'default' ? { startOfSpeechSensitivity: START_SENSITIVITY[vad.startSensitivity] } : {}),
+    ...(vad.endSensitivity !== 'default' ? { endOfSpeechSensitivity: END_SENSITIVITY[vad.endSensitivity] } : {}),
+    ...(vad.prefixPaddingMs !== null ? { prefixPaddingMs: vad.prefixPaddingMs } : {}),
+    ...(vad.silenceDurationMs !== null ? { silenceDurationMs: vad.silenceDurationMs } : {}),
+  };
+}
@@ -0,0 +1,171 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { Appointment, AppointmentChange, AppointmentChangeKind } from '../types';
+import { CallHold } from './bookingTools';
+import { ScheduleStore } from './scheduleStore';
+
+export const CHANGE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'find_appointments',
+    description: "Verify the caller and list their upcoming appointments. Needs the phone number on the booking plus the patient's full name or date of birth.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        phone: { type: Type.STRING, description: 'Phone number the appointment was booked with.' },
+        patient_name: { type: Type.STRING, description: 'Full name of the patient.' },
+        date_of_birth: { type: Type.STRING, description: 'Patient date of birth in YYYY-MM-DD format.' },
+      },
+      required: ['phone'],
+    },
+  },
+  {
+    name: 'reschedule_appointment',
+    description: 'Move a verified appointment to a new slot from check_availability. Call only after the caller confirms the new time.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        appointment_id: { type: Type.STRING, description: 'Appointment id returned by find_appointments.' },
+        slot_id: { type: Type.STRING, description: 'Slot id returned by check_availability.' },
+      },
+      required: ['appointment_id', 'slot_id'],
+    },
+  },
+  {
+    name: 'cancel_appointment',
+    description: 'Cancel a verified appointment. Call only after the caller confirms they want to cancel it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        appointment_id: { type: Type.STRING, description: 'Appointment id returned by find_appointments.' },
+      },
+      required: ['appointment_id'],
+    },
+  },
+];
+
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+export const CHANGE_TOOL_INSTRUCTION = `
+====================
+CHANGES & CANCELLATIONS (MANDATORY)
+====================
+- To move or cancel an existing appointment, first ask for the phone number it was booked with and the patient's full name or date of birth, then call find_appointments.
+- Never say whether an appointment exists, and never give any appointment detail, until find_appointments returns "verified". If it returns an error, do not say which detail was wrong; ask the caller to check them all.
+- After ${MAX_VERIFICATION_ATTEMPTS} failed attempts, offer to transfer the caller to staff.
+- Read the verified appointment back (department, date and time) and ask what they would like to do.
+- To reschedule: use check_availability, confirm the new time with the caller, then call reschedule_appointment. Only say it is moved if the tool returns "rescheduled".
+- To cancel: confirm first, then call cancel_appointment. Only say it is cancelled if the tool returns "cancelled".
+`;
+
+/** What the caller has proven during this call. Kept for the whole call, across reconnects. */
+export interface CallerVerification {
+  /** Appointments the caller may hear about and change, as last seen. */
+  appointments: Map<string, Appointment>;
+  failedAttempts: number;
+}
+
+export function createCallerVerification(): CallerVerification {
+  return { appointments: new Map(), failedAttempts: 0 };
+}
+
+export interface CallerIdentity {
+  phone: string;
+  patientName?: string;
+  dateOfBirth?: string;
+}
+
+const phoneDigits = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+/** Case, accents, punctuation and word order are ignored: "smith, jordan" matches "Jordan Smith". */
+const nameKey = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\d]+/u)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+/** The phone number must match, plus the name or the date of birth. */
+export function matchesCaller(appointment: Appointment, identity: CallerIdentity): boolean {
+  if (phoneDigits(identity.phone).length < 10 || phoneDigits(appointment.phone) !== phoneDigits(identity.phone)) return false;
+  const nameMatches = !!identity.patientName && nameKey(identity.patientName) === nameKey(appointment.patientName);
+  const dobMatches = !!identity.dateOfBirth && !!appointment.dateOfBirth && identity.dateOfBirth === appointment.dateOfBirth;
+  return nameMatches || dobMatches;
+}
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const summarize = (a: Appointment) => ({ appointment_id: a.id, department: a.department, date: a.date, time: a.time });
+
+/**
+ * Answers lookup, reschedule and cancel calls. Nothing about an appointment
+ * is returned until the caller has matched it, and failed lookups all get
+ * the same answer so the model cannot tell which detail was wrong.
+ * `hold` is the call's hold from handleBookingCall, so a slot the call held
+ * can be the new time.
+ */
+export async function handleAppointmentChangeCall(
+  store: ScheduleStore,
+  call: FunctionCall,
+  hold: CallHold,
+  verification: CallerVerification,
+  today: string,
+  onChange: (change: AppointmentChange) => void,
+): Promise<FunctionResponse> {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  const change = async (kind: AppointmentChangeKind, apply: (id: string) => Promise<Appointment>) => {
+    const id = str(args.appointment_id);
+    const before = verification.appointments.get(id);
+    if (!before) return respond({ error: 'Unknown appointment. Verify the caller with find_appointments first.' });
+    const after = await apply(id);
+    verification.appointments.set(id, after);
+    onChange({ kind, before, after, at: new Date() });
+    return respond({ output: { status: kind, ...summarize(after) } });
+  };
+
+  try {
+    switch (call.name) {
+      case 'find_appointments': {
+        if (verification.failedAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+          return respond({ error: 'Too many failed attempts on this call. Do not try again; offer to transfer the caller to staff.' });
+        }
+        const identity: CallerIdentity = {
+          phone: str(args.phone),
+          patientName: str(args.patient_name) || undefined,
+          dateOfBirth: str(args.date_of_birth) || undefined,
+        };
+        if (phoneDigits(identity.phone).length < 10) return respond({ error: 'A 10-digit phone number is required.' });
+        if (!identity.patientName && !identity.dateOfBirth) return respond({ error: "Ask for the patient's full name or date of birth as well." });
+        if (identity.dateOfBirth && !/^\d{4}-\d{2}-\d{2}$/.test(identity.dateOfBirth)) {
+          return respond({ error: 'Date of birth must be in YYYY-MM-DD format.' });
+        }
+
+        const matches = (await store.listAppointments())
+          .filter(a => !a.cancelledAt && a.date >= today && matchesCaller(a, identity))
+          .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+        if (matches.length === 0) {
+          verification.failedAttempts++;
+          const left = MAX_VERIFICATION_ATTEMPTS - verification.failedAttempts;
+          return respond({ error: `No upcoming appointment matches those details. ${left > 0 ? `${left} attempt(s) left.` : 'No attempts left.'}` });
+        }
+        for (const a of matches) verification.appointments.set(a.id, a);
+        return respond({ output: { status: 'verified', appointments: matches.map(summarize) } });
+      }
+      case 'reschedule_appointment':
+        return await change('rescheduled', id => store.rescheduleAppointment(id, str(args.slot_id), hold.id));
+      case 'cancel_appointment':
+        return await change('cancelled', id => store.cancelAppointment(id));
+      default:
+        return respond({ error: `Unknown tool "${call.name}".` });
+    }
+  } catch (e) {
+    return respond({ error: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+export function isAppointmentChangeCall(call: FunctionCall): boolean {
+  return CHANGE_FUNCTION_DECLARATIONS.some(d => d.name === call.name);
+}
@@ -0,0 +1,97 @@
+import { Behavior, FunctionCall, FunctionDeclaration, FunctionResponse, FunctionResponseScheduling, Type } from '@google/genai';
+import { Appointment, AppointmentDraft, AppointmentDraftField } from '../types';
+import { Strings } from './i18n';
+
+export const DRAFT_FIELDS: AppointmentDraftField[] = ['patientName', 'department', 'date', 'time', 'phone'];
+
+const ARG_NAMES: Record<AppointmentDraftField, string> = {
+  patientName: 'patient_name',
+  department: 'department',
+  date: 'date',
+  time: 'time',
+  phone: 'phone',
+};
+
+export const DRAFT_FUNCTION_DECLARATION: FunctionDeclaration = {
+  name: 'update_appointment_draft',
+  description: 'Record appointment details as the patient gives, changes or confirms them. Runs silently in the background.',
+  behavior: Behavior.NON_BLOCKING,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      patient_name: { type: Type.STRING, description: 'Full name of the patient.' },
+      department: { type: Type.STRING, description: 'Department, exactly as listed.' },
+      date: { type: Type.STRING, description: 'Date in YYYY-MM-DD format.' },
+      time: { type: Type.STRING, description: 'Time in 24-hour HH:MM format.' },
+      phone: { type: Type.STRING, description: 'Patient phone number.' },
+      confirmed: {
+        type: Type.ARRAY,
+        description: 'Fields the patient has explicitly confirmed as correct.',
+        items: { type: Type.STRING, enum: Object.values(ARG_NAMES) },
+      },
+    },
+  },
+};
+
+export const DRAFT_TOOL_INSTRUCTION = `- Call update_appointment_draft every time the patient gives or changes a detail, and again with "confirmed" once they confirm it. Do not mention this tool to the patient.`;
+
+/**
+ * Merges a model update into the draft. A new value for a field that already
+ * had a different one is marked "changed" until the patient confirms it.
+ */
+export function applyDraftUpdate(draft: AppointmentDraft, args: Record<string, unknown>, now: Date = new Date()): AppointmentDraft {
+  const next: AppointmentDraft = { ...draft };
+  for (const field of DRAFT_FIELDS) {
+    const raw = args[ARG_NAMES[field]];
+    if (typeof raw !== 'string' || !raw.trim()) continue;
+    const value = raw.trim();
+    const existing = next[field];
+    if (existing?.value === value) continue;
+    next[field] = { value, status: existing ? 'changed' : 'unconfirmed', updatedAt: now };
+  }
+
+  const confirmed = Array.isArray(args.confirmed) ? args.confirmed : [];
+  for (const field of DRAFT_FIELDS) {
+    const existing = next[field];
+    if (existing && confirmed.includes(ARG_NAMES[field])) {
+      next[field] = { ...existing, status: 'confirmed', updatedAt: now };
+    }
+  }
+  return next;
+}
+
+/** A booking returned by the store is authoritative: every field is confirmed. */
+export function draftFromAppointment(appointment: Appointment, now: Date = new Date()): AppointmentDraft {
+  const values: Record<AppointmentDraftField, string> = {
+    patientName: appointment.patientName,
+    department: appointment.department,
+    date: appointment.date,
+    time: appointment.time,
+    phone: appointment.phone,
+  };
+  const draft: AppointmentDraft = {};
+  for (const field of DRAFT_FIELDS) draft[field] = { value: values[field], status: 'confirmed', updatedAt: now };
+  return draft;
+}
+
+export function handleDraftCall(
+  call: FunctionCall,
+  onUpdate: (args: Record<string, unknown>) => void,
+): FunctionResponse {
+  onUpdate(call.args ?? {});
+  return {
+    id: call.id,
+    name: call.name,
+    scheduling: FunctionResponseScheduling.SILENT,
+    response: { output: { status: 'recorded' } },
+  };
+}
+
+export function formatAppointmentDraft(draft: AppointmentDraft, strings: Strings): string {
+  const lines = DRAFT_FIELDS.map(field => {
+    const entry = draft[field];
+    const value = entry ? `${entry.value} (${strings[`draftStatus_${entry.status}`]})` : '—';
+    return `${strings[`draftField_${field}`]}: ${value}`;
+  });
+  return `${strings.appointmentDraft}\n${lines.join('\n')}`;
+}
@@ -1,9 +1,11 @@
 
+const ENCODE_CHUNK_SIZE = 0x8000;
+
 export function encode(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  for (let i = 0; i < len; i += ENCODE_CHUNK_SIZE) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + ENCODE_CHUNK_SIZE) as unknown as number[]);
   }
   return btoa(binary);
 }
@@ -36,3 +38,53 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+/** Linear-interpolation resample, good enough for speech recordings. */
+export function resampleInt16(input: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return input;
+  const length = Math.round((input.length * toRate) / fromRate);
+  const output = new Int16Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, input.length - 1);
+    const frac = pos - index;
+    output[i] = Math.round(input[index] * (1 - frac) + input[next] * frac);
+  }
+  return output;
+}
+
+/** Interleaves equal-length Int16 channels into a 16-bit PCM WAV file. */
+export function encodeWav(channels: Int16Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const dataBytes = frames * numChannels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataBytes));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += 2;
+    }
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
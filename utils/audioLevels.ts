@@ -0,0 +1,54 @@
+/** Samples at or above this magnitude are treated as clipped. */
+export const CLIP_LEVEL = 0.99;
+
+/** Levels below this, in dBFS, show as an empty meter. */
+const FLOOR_DB = -60;
+
+export interface LevelReading {
+  /** 0-1 on a -60 dBFS to 0 dBFS scale, for display. */
+  level: number;
+  peak: number;
+  clipping: boolean;
+}
+
+export interface LevelMeter {
+  /** Connect the audio to measure here; nothing is passed through. */
+  input: AnalyserNode;
+  read(): LevelReading;
+}
+
+const toLevel = (rms: number) => {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+};
+
+/** An AnalyserNode tap that reports RMS level, peak and clipping on demand. */
+export function createLevelMeter(ctx: BaseAudioContext): LevelMeter {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0;
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    input: analyser,
+    read() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      let peak = 0;
+      for (const s of samples) {
+        sum += s * s;
+        peak = Math.max(peak, Math.abs(s));
+      }
+      return { level: toLevel(Math.sqrt(sum / samples.length)), peak, clipping: peak >= CLIP_LEVEL };
+    },
+  };
+}
+
+/** RMS of a PCM chunk, 0-1. */
+export function pcmRms(pcm: Int16Array): number {
+  if (pcm.length === 0) return 0;
+  let sum = 0;
+  for (const s of pcm) sum += (s / 32768) ** 2;
+  return Math.sqrt(sum / pcm.length);
+}
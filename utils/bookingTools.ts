@@ -0,0 +1,112 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { Appointment } from '../types';
+import { ScheduleStore } from './scheduleStore';
+
+export const BOOKING_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'check_availability',
+    description: 'List open appointment slots for a department on a given date. Only offer slots returned by this tool.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        department: { type: Type.STRING, description: 'Department name.' },
+        date: { type: Type.STRING, description: 'Date in YYYY-MM-DD format.' },
+      },
+      required: ['department', 'date'],
+    },
+  },
+  {
+    name: 'hold_slot',
+    description: 'Temporarily reserve a slot while the patient confirms their details.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        slot_id: { type: Type.STRING, description: 'Slot id returned by check_availability.' },
+      },
+      required: ['slot_id'],
+    },
+  },
+  {
+    name: 'book_appointment',
+    description: 'Book a slot for the patient. Call only after the patient has confirmed all details.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        slot_id: { type: Type.STRING, description: 'Slot id returned by check_availability.' },
+        patient_name: { type: Type.STRING, description: 'Full name of the patient.' },
+        phone: { type: Type.STRING, description: 'Patient phone number.' },
+        date_of_birth: { type: Type.STRING, description: 'Patient date of birth in YYYY-MM-DD format.' },
+      },
+      required: ['slot_id', 'patient_name', 'phone'],
+    },
+  },
+];
+
+export const BOOKING_TOOL_INSTRUCTION = `
+====================
+TOOLS (MANDATORY)
+====================
+- Use check_availability before offering any time. Never invent or guess a slot.
+- Use hold_slot once the patient picks a slot, then collect the phone number and date of birth. Pass the date of birth to book_appointment so the patient can manage the appointment by phone later.
+- Use book_appointment only after the patient confirms. Only say the appointment is booked if the tool returns "booked".
+- If a tool returns an error, apologise briefly and offer another option.
+`;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+/** The call's slot hold. One per call: holding another slot moves it. */
+export interface CallHold {
+  id?: string;
+}
+
+/**
+ * Answers a single function call from the Live session against the store.
+ * Errors are returned to the model rather than thrown so it can recover.
+ * The call's hold lets it book what it held, and nobody else can.
+ */
+export async function handleBookingCall(
+  store: ScheduleStore,
+  call: FunctionCall,
+  hold: CallHold,
+  onBooked: (appointment: Appointment) => void,
+): Promise<FunctionResponse> {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  try {
+    switch (call.name) {
+      case 'check_availability': {
+        const slots = await store.checkAvailability(str(args.department), str(args.date));
+        return respond({ output: { slots: slots.map(s => ({ slot_id: s.id, time: s.time })) } });
+      }
+      case 'hold_slot': {
+        const { slot, expiresAt, holdId } = await store.holdSlot(str(args.slot_id), hold.id);
+        hold.id = holdId;
+        return respond({ output: { status: 'held', slot_id: slot.id, expires_at: expiresAt.toISOString() } });
+      }
+      case 'book_appointment': {
+        const appointment = await store.bookAppointment({
+          slotId: str(args.slot_id),
+          patientName: str(args.patient_name),
+          phone: str(args.phone),
+          dateOfBirth: str(args.date_of_birth) || undefined,
+          holdId: hold.id,
+        });
+        onBooked(appointment);
+        return respond({
+          output: {
+            status: 'booked',
+            appointment_id: appointment.id,
+            department: appointment.department,
+            date: appointment.date,
+            time: appointment.time,
+          },
+        });
+      }
+      default:
+        return respond({ error: `Unknown tool "${call.name}".` });
+    }
+  } catch (e) {
+    return respond({ error: e instanceof Error ? e.message : String(e) });
+  }
+}
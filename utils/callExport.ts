@@ -0,0 +1,262 @@
+import { CallRecord, ExportPrivacy, TranscriptionEntry } from '../types';
+import { recordingExtension } from './callRecorder';
+import { downloadBlob, formatCallLog } from './download';
+import { buildFhirBundle } from './fhir';
+import { getStrings, Strings } from './i18n';
+import { redactCallRecord, Redactor } from './redaction';
+
+export type ExportFormat = 'text' | 'json' | 'vtt' | 'srt' | 'html' | 'fhir' | 'recording' | 'patientStem' | 'agentStem';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['text', 'json', 'vtt', 'srt', 'html', 'fhir', 'recording', 'patientStem', 'agentStem'];
+
+const AUDIO_FORMATS: ExportFormat[] = ['recording', 'patientStem', 'agentStem'];
+
+/**
+ * Whether the record holds what a format needs: audio, or for FHIR an
+ * appointment or intake. Audio cannot be redacted, so it is only exported in full.
+ */
+export function canExport(
+  record: (Pick<CallRecord, 'recording' | 'stems'> & Partial<Pick<CallRecord, 'appointments' | 'changes' | 'intakes'>>) | null,
+  format: ExportFormat,
+  privacy: ExportPrivacy = 'full',
+): boolean {
+  if (AUDIO_FORMATS.includes(format) && privacy === 'redacted') return false;
+  if (format === 'fhir') return !record || (record.appointments?.length ?? 0) + (record.changes?.length ?? 0) + (record.intakes?.length ?? 0) > 0;
+  if (format === 'recording') return !!record?.recording;
+  if (format === 'patientStem' || format === 'agentStem') return !!record?.stems;
+  return true;
+}
+
+// Typed turns and short interjections have no real duration; give their
+// captions long enough on screen to be read.
+const MIN_CUE_MS = 1500;
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+  text: string;
+}
+
+/** Entry offsets from call start, falling back to wall-clock stamps for records saved before offsets existed. */
+function entryStartMs(record: CallRecord, entry: TranscriptionEntry): number {
+  return entry.startMs ?? entry.timestamp.getTime() - record.startedAt.getTime();
+}
+
+/**
+ * Transcript entries as cues on the recording's timeline. The recorder starts
+ * once the session opens, slightly after the call itself.
+ */
+function buildCues(record: CallRecord, strings: Strings): Cue[] {
+  const offset = record.recordingOffsetMs ?? 0;
+  return record.transcriptions.map(t => {
+    const start = Math.max(0, entryStartMs(record, t) - offset);
+    const end = Math.max((t.endMs ?? entryStartMs(record, t)) - offset, start + MIN_CUE_MS);
+    const speaker = t.type === 'user' ? strings.patient : strings.receptionist;
+    return { startMs: start, endMs: end, speaker, text: t.interrupted ? `${t.text} [${strings.interrupted}]` : t.text };
+  });
+}
+
+function formatCueTime(ms: number, separator: '.' | ','): string {
+  const total = Math.round(ms);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function buildWebVtt(record: CallRecord, strings: Strings): string {
+  const cues = buildCues(record, strings).map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.startMs, '.')} --> ${formatCueTime(cue.endMs, '.')}\n<v ${cue.speaker}>${escapeVtt(cue.text)}`
+  );
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+export function buildSrt(record: CallRecord, strings: Strings): string {
+  const cues = buildCues(record, strings).map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(cue.endMs, ',')}\n${cue.speaker}: ${cue.text}`
+  );
+  return `${cues.join('\n\n')}\n`;
+}
+
+/** Call metadata, entries with timings, and outcome for QA tooling and the EHR feed. */
+export function buildCallJson(record: CallRecord, privacy: ExportPrivacy = 'full'): string {
+  const { recording, stems, transcriptions, ...metadata } = record;
+  const describe = (blob: Blob) => ({ mimeType: blob.type, sizeBytes: blob.size });
+  return JSON.stringify({
+    format: 'canada-care.call.v1',
+    privacy,
+    ...metadata,
+    recording: recording
+      ? { ...describe(recording), channels: { left: 'patient', right: 'agent' }, offsetMs: record.recordingOffsetMs ?? 0 }
+      : null,
+    stems: stems ? { patient: describe(stems.patient), agent: describe(stems.agent) } : null,
+    entries: transcriptions.map(t => ({
+      speaker: t.type === 'user' ? 'patient' : 'agent',
+      text: t.text,
+      startMs: entryStartMs(record, t),
+      endMs: t.endMs ?? entryStartMs(record, t),
+      timestamp: t.timestamp,
+      typed: t.typed ?? false,
+      interrupted: t.interrupted ?? false,
+    })),
+  }, null, 2);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** "m:ss" */
+function formatMinutes(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * A single HTML file with the recording embedded as a data URL and a
+ * transcript that seeks the player when an entry is clicked.
+ */
+export async function buildHtmlReport(record: CallRecord, strings: Strings): Promise<string> {
+  const audioSrc = record.recording ? await blobToDataUrl(record.recording) : '';
+  const cues = buildCues(record, strings);
+
+  const meta = [
+    [strings.reportStarted, record.startedAt.toLocaleString(record.language)],
+    [strings.reportDuration, formatMinutes(record.durationMs)],
+    [strings.reportOutcome, strings[`outcome_${record.outcome}`]],
+    [strings.reportLanguage, record.language],
+    ...(record.silenceMs !== undefined ? [[strings.reportSilence, formatMinutes(record.silenceMs)]] : []),
+    ...(record.autoHangup ? [[strings.reportAutoHangup, strings[`autoHangup_${record.autoHangup}`]]] : []),
+    ...(record.preset ? [[strings.reportPreset, `${record.preset.name} v${record.preset.version} · ${record.preset.model}`]] : []),
+    ...(record.consent
+      ? [[strings.reportConsent, `${strings[`consent_${record.consent.decision}`]}${record.consent.decidedAt ? ` · ${record.consent.decidedAt.toLocaleString(record.language)}` : ''}`]]
+      : []),
+    ...record.appointments.map(a => [strings.booked, `${a.patientName} — ${a.department}, ${a.date} ${strings.at} ${a.time}`]),
+    ...(record.changes ?? []).map(c => [
+      strings[`change_${c.kind}`],
+      `${c.before.patientName} — ${c.before.department}, ${c.before.date} ${strings.at} ${c.before.time}${c.kind === 'rescheduled' ? ` → ${c.after.department}, ${c.after.date} ${strings.at} ${c.after.time}` : ''}`,
+    ]),
+    ...(record.callbacks ?? []).map(c => [strings.callbackRequested, `${c.patientName}, ${c.phone} — ${c.reason}${c.preferredTime ? ` (${c.preferredTime})` : ''}`]),
+    ...(record.escalations ?? []).map(e => [
+      strings.escalations,
+      `${e.kind === 'transfer' ? strings.transferRequested : e.category ? strings[`redFlag_${e.category}`] : strings.possibleEmergency}${e.detail ? `: ${e.detail}` : ''}`,
+    ]),
+  ].map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n');
+
+  const entries = cues.map(cue => `<li data-start="${cue.startMs / 1000}" data-end="${cue.endMs / 1000}">
+  <button type="button">${formatCueTime(cue.startMs, '.').slice(3, 8)}</button>
+  <strong>${escapeHtml(cue.speaker)}</strong> ${escapeHtml(cue.text)}
+</li>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${record.language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(strings.callReport)} · ${escapeHtml(record.startedAt.toLocaleString(record.language))}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #334155; }
+  h1 { font-size: 1rem; text-transform: uppercase; letter-spacing: .15em; color: #4f46e5; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: .85rem; }
+  th { text-align: left; padding: .25rem 1rem .25rem 0; color: #94a3b8; font-weight: 700; }
+  audio { width: 100%; margin-bottom: 1.5rem; }
+  ol { list-style: none; padding: 0; }
+  li { padding: .5rem .75rem; border-radius: .75rem; margin-bottom: .25rem; font-size: .9rem; line-height: 1.5; }
+  li.active { background: #eef2ff; }
+  li button { font: inherit; font-size: .75rem; font-family: monospace; border: 0; background: #e2e8f0; border-radius: .5rem; padding: .1rem .4rem; margin-right: .5rem; cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(strings.callReport)}</h1>
+<table>
+${meta}
+</table>
+${audioSrc ? `<audio id="player" controls preload="metadata" src="${audioSrc}"></audio>` : `<p>${escapeHtml(strings.noRecording)}</p>`}
+<ol id="transcript">
+${entries}
+</ol>
+<script>
+  var player = document.getElementById('player');
+  var items = Array.prototype.slice.call(document.querySelectorAll('#transcript li'));
+  items.forEach(function (item) {
+    item.querySelector('button').addEventListener('click', function () {
+      if (!player) return;
+      player.currentTime = Number(item.dataset.start);
+      player.play();
+    });
+  });
+  if (player) player.addEventListener('timeupdate', function () {
+    var t = player.currentTime;
+    items.forEach(function (item) {
+      item.classList.toggle('active', t >= Number(item.dataset.start) && t < Number(item.dataset.end));
+    });
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds the chosen export in the call's own language and downloads it. With
+ * a redactor the export is redacted and audio formats are refused.
+ */
+export async function exportCall(full: CallRecord, format: ExportFormat, redactor: Redactor | null): Promise<void> {
+  const privacy: ExportPrivacy = redactor ? 'redacted' : 'full';
+  if (!canExport(full, format, privacy)) return;
+  const record = redactor ? redactCallRecord(full, redactor) : full;
+  const strings = getStrings(record.language);
+  const suffix = redactor ? '-redacted' : '';
+  const base = `${record.siteId}-call-${record.startedAt.getTime()}${suffix}`;
+
+  switch (format) {
+    case 'text':
+      downloadBlob(
+        new Blob([formatCallLog(record, strings)], { type: 'text/plain' }),
+        `${record.siteId}-transcript-${record.startedAt.getTime()}${suffix}.txt`,
+      );
+      return;
+    case 'json':
+      downloadBlob(new Blob([buildCallJson(record, privacy)], { type: 'application/json' }), `${base}.json`);
+      return;
+    case 'vtt':
+      downloadBlob(new Blob([buildWebVtt(record, strings)], { type: 'text/vtt' }), `${base}.vtt`);
+      return;
+    case 'srt':
+      downloadBlob(new Blob([buildSrt(record, strings)], { type: 'application/x-subrip' }), `${base}.srt`);
+      return;
+    case 'html':
+      downloadBlob(new Blob([await buildHtmlReport(record, strings)], { type: 'text/html' }), `${base}.html`);
+      return;
+    case 'fhir':
+      downloadBlob(new Blob([buildFhirBundle(record)], { type: 'application/fhir+json' }), `${base}-fhir.json`);
+      return;
+    case 'recording':
+      if (record.recording) downloadBlob(record.recording, `${base}.${recordingExtension(record.recording)}`);
+      return;
+    case 'patientStem':
+    case 'agentStem': {
+      const stem = record.stems?.[format === 'patientStem' ? 'patient' : 'agent'];
+      if (stem) downloadBlob(stem, `${base}-${format === 'patientStem' ? 'patient' : 'agent'}.${recordingExtension(stem)}`);
+      return;
+    }
+  }
+}
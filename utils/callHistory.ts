@@ -0,0 +1,72 @@
+import { CallRecord } from '../types';
+import { getAll, put, remove } from './db';
+
+const RETENTION_KEY = 'canada-care.callRetentionLimit';
+export const DEFAULT_RETENTION_LIMIT = 50;
+
+export function getRetentionLimit(): number {
+  const stored = Number(localStorage.getItem(RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_RETENTION_LIMIT;
+}
+
+export function setRetentionLimit(limit: number) {
+  localStorage.setItem(RETENTION_KEY, String(Math.max(1, Math.floor(limit))));
+}
+
+const RECORDING_RETENTION_KEY = 'canada-care.recordingRetentionDays';
+export const DEFAULT_RECORDING_RETENTION_DAYS = 30;
+
+export function getRecordingRetentionDays(): number {
+  const stored = Number(localStorage.getItem(RECORDING_RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_RECORDING_RETENTION_DAYS;
+}
+
+export function setRecordingRetentionDays(days: number) {
+  localStorage.setItem(RECORDING_RETENTION_KEY, String(Math.max(1, Math.floor(days))));
+}
+
+/** Newest first. */
+export async function listCalls(): Promise<CallRecord[]> {
+  const calls = await getAll<CallRecord>('calls');
+  return calls.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+export async function deleteCall(id: string): Promise<void> {
+  await remove('calls', id);
+}
+
+/** Deletes the oldest calls beyond the retention limit. */
+export async function purgeOldCalls(limit: number = getRetentionLimit()): Promise<number> {
+  const calls = await listCalls();
+  const expired = calls.slice(limit);
+  await Promise.all(expired.map(c => remove('calls', c.id)));
+  return expired.length;
+}
+
+/**
+ * Strips audio from calls older than the recording retention period. The
+ * rest of the call record is kept until the call itself ages out.
+ */
+export async function purgeExpiredRecordings(days: number = getRecordingRetentionDays(), now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+  const calls = await listCalls();
+  const expired = calls.filter(c => c.startedAt.getTime() < cutoff && (c.recording || c.stems));
+  await Promise.all(expired.map(c => put('calls', { ...c, recording: null, stems: null })));
+  return expired.length;
+}
+
+export async function saveCall(record: CallRecord): Promise<void> {
+  await put('calls', record);
+  await purgeOldCalls();
+  await purgeExpiredRecordings();
+}
+
+export function searchCalls(calls: CallRecord[], query: string): CallRecord[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return calls;
+  return calls.filter(c =>
+    c.transcriptions.some(t => t.text.toLowerCase().includes(q)) ||
+    [...c.appointments, ...(c.changes ?? []).map(change => change.after)]
+      .some(a => `${a.patientName} ${a.department} ${a.date}`.toLowerCase().includes(q))
+  );
+}
@@ -0,0 +1,84 @@
+import { Content } from '@google/genai';
+import { AutoHangupReason, CallLimitSettings } from '../types';
+
+const SETTINGS_KEY = 'canada-care.callLimits';
+
+export const DEFAULT_CALL_LIMITS: CallLimitSettings = {
+  stillThereAfterSec: 20,
+  hangUpAfterSec: 45,
+  stillTherePrompt: '',
+  maxCallMinutes: 15,
+  warnBeforeEndSec: 60,
+};
+
+/** Pauses shorter than this are ordinary turn-taking, not silence. */
+export const MIN_SILENCE_MS = 2000;
+
+/** Longest to wait for the receptionist's goodbye before hanging up anyway. */
+export const GOODBYE_TIMEOUT_MS = 15_000;
+
+/** Mic chunks quieter than this RMS (about -40 dBFS) do not count as the caller speaking. */
+export const SPEECH_RMS = 0.01;
+
+const count = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+export function getCallLimits(): CallLimitSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      stillThereAfterSec: count(stored.stillThereAfterSec, DEFAULT_CALL_LIMITS.stillThereAfterSec),
+      hangUpAfterSec: count(stored.hangUpAfterSec, DEFAULT_CALL_LIMITS.hangUpAfterSec),
+      stillTherePrompt: typeof stored.stillTherePrompt === 'string' ? stored.stillTherePrompt : DEFAULT_CALL_LIMITS.stillTherePrompt,
+      maxCallMinutes: count(stored.maxCallMinutes, DEFAULT_CALL_LIMITS.maxCallMinutes),
+      warnBeforeEndSec: count(stored.warnBeforeEndSec, DEFAULT_CALL_LIMITS.warnBeforeEndSec),
+    };
+  } catch {
+    return DEFAULT_CALL_LIMITS;
+  }
+}
+
+export function setCallLimits(settings: CallLimitSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export interface SilenceTracker {
+  /** Either side spoke, or agent audio was playing, at `at`. */
+  markActivity(at?: number): void;
+  /** How long it has been silent. */
+  currentMs(at?: number): number;
+  /** Silence so far in the call, counting only pauses of at least `MIN_SILENCE_MS`. */
+  totalMs(at?: number): number;
+}
+
+export function createSilenceTracker(startedAt: number = Date.now()): SilenceTracker {
+  let lastActivity = startedAt;
+  let total = 0;
+  const gap = (at: number) => Math.max(0, at - lastActivity);
+
+  return {
+    markActivity(at = Date.now()) {
+      if (gap(at) >= MIN_SILENCE_MS) total += gap(at);
+      lastActivity = Math.max(lastActivity, at);
+    },
+    currentMs: (at = Date.now()) => gap(at),
+    totalMs: (at = Date.now()) => total + (gap(at) >= MIN_SILENCE_MS ? gap(at) : 0),
+  };
+}
+
+const note = (text: string): Content[] => [{ role: 'user', parts: [{ text: `[System note: ${text}]` }] }];
+
+export function buildStillThereTurns(prompt: string): Content[] {
+  return note(`the caller has gone quiet. Ask them, in their language: "${prompt}"`);
+}
+
+export function buildDurationWarningTurns(minutesLeft: number): Content[] {
+  return note(`this call reaches its time limit in about ${minutesLeft} minute(s). Briefly tell the caller, then help them wrap up.`);
+}
+
+/** The receptionist says goodbye; the client hangs up once it has been played. */
+export function buildGoodbyeTurns(reason: AutoHangupReason): Content[] {
+  return note(reason === 'silence'
+    ? 'the caller has not answered. Say a short, polite goodbye and invite them to call back. The call will then end.'
+    : 'the call has reached its time limit. Apologise, invite the caller to call back to finish, and say goodbye. The call will then end.');
+}
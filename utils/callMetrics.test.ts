@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createLiveCallMetrics, markAgentReply, markPatientSpeech, markPatientTurnEnd } from './callMetrics';
+
+describe('reply latency', () => {
+  it('measures from when the caller last spoke, not from later turn signals', () => {
+    const metrics = createLiveCallMetrics();
+    markPatientSpeech(metrics, 1_000);
+    markPatientSpeech(metrics, 2_000);
+    markPatientTurnEnd(metrics);
+    markPatientTurnEnd(metrics);
+    markAgentReply(metrics, 2_800);
+
+    expect(metrics.latenciesMs).toEqual([800]);
+  });
+
+  it('ends the turn at the reply when no end was signalled', () => {
+    const metrics = createLiveCallMetrics();
+    markPatientSpeech(metrics, 5_000);
+    markAgentReply(metrics, 5_600);
+
+    expect(metrics.latenciesMs).toEqual([600]);
+  });
+
+  it('keeps the turn open while the caller speaks again before a reply', () => {
+    const metrics = createLiveCallMetrics();
+    markPatientSpeech(metrics, 1_000);
+    markPatientTurnEnd(metrics);
+    markPatientSpeech(metrics, 3_000);
+    markAgentReply(metrics, 3_500);
+
+    expect(metrics.latenciesMs).toEqual([500]);
+  });
+
+  it('records nothing for a reply or turn end without caller speech', () => {
+    const metrics = createLiveCallMetrics();
+    markPatientSpeech(metrics, 1_000);
+    markAgentReply(metrics, 1_400);
+    // The caption flush after the reply must not open a new turn.
+    markPatientTurnEnd(metrics);
+    markAgentReply(metrics, 9_000);
+
+    expect(metrics.latenciesMs).toEqual([400]);
+  });
+});
@@ -0,0 +1,180 @@
+import { CallMetrics, CallRecord, TranscriptionEntry } from '../types';
+
+/** Counters kept on the live call; turned into `CallMetrics` when the call is saved. */
+export interface LiveCallMetrics {
+  latenciesMs: number[];
+  interruptions: number;
+  reconnects: number;
+  errors: number;
+  /** When the caller last spoke in a turn that has not ended yet, in ms from call start. */
+  patientSpeechEndMs: number | null;
+  /** When the caller's turn ended, in ms from call start, if the agent has not answered yet. */
+  awaitingReplySinceMs: number | null;
+}
+
+export function createLiveCallMetrics(): LiveCallMetrics {
+  return { latenciesMs: [], interruptions: 0, reconnects: 0, errors: 0, patientSpeechEndMs: null, awaitingReplySinceMs: null };
+}
+
+/** The caller spoke or typed at `atMs`, so their turn is still going. */
+export function markPatientSpeech(metrics: LiveCallMetrics, atMs: number) {
+  metrics.patientSpeechEndMs = atMs;
+  metrics.awaitingReplySinceMs = null;
+}
+
+/**
+ * The caller's turn is over; it ended when they last spoke. Later calls
+ * leave that time alone until the caller speaks again.
+ */
+export function markPatientTurnEnd(metrics: LiveCallMetrics) {
+  if (metrics.patientSpeechEndMs === null) return;
+  metrics.awaitingReplySinceMs = metrics.patientSpeechEndMs;
+  metrics.patientSpeechEndMs = null;
+}
+
+/** The agent's first reply audio is scheduled to start at `atMs`; a reply also ends the caller's turn. */
+export function markAgentReply(metrics: LiveCallMetrics, atMs: number) {
+  markPatientTurnEnd(metrics);
+  if (metrics.awaitingReplySinceMs === null) return;
+  metrics.latenciesMs.push(Math.max(0, Math.round(atMs - metrics.awaitingReplySinceMs)));
+  metrics.awaitingReplySinceMs = null;
+}
+
+export function summarizeCallMetrics(live: LiveCallMetrics, transcriptions: TranscriptionEntry[], bookingCompleted: boolean): CallMetrics {
+  const talk = (type: TranscriptionEntry['type']) =>
+    transcriptions.filter(t => t.type === type && !t.typed).reduce((sum, t) => sum + Math.max(0, t.endMs - t.startMs), 0);
+  return {
+    latenciesMs: [...live.latenciesMs],
+    interruptions: live.interruptions,
+    patientTurns: transcriptions.filter(t => t.type === 'user').length,
+    agentTurns: transcriptions.filter(t => t.type === 'agent').length,
+    patientTalkMs: talk('user'),
+    agentTalkMs: talk('agent'),
+    reconnects: live.reconnects,
+    errors: live.errors,
+    bookingCompleted,
+  };
+}
+
+/** Nearest-rank percentile; null for no values. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+/** Share of talk time that was the patient's, 0-1; null when nobody spoke. */
+export function talkRatio(metrics: Pick<CallMetrics, 'patientTalkMs' | 'agentTalkMs'>): number | null {
+  const total = metrics.patientTalkMs + metrics.agentTalkMs;
+  return total > 0 ? metrics.patientTalkMs / total : null;
+}
+
+export type MetricsPeriod = 'day' | 'week';
+
+export interface MetricsSummary {
+  /** First day of the period, YYYY-MM-DD in local time. */
+  period: string;
+  calls: number;
+  medianLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  bookingRate: number;
+  interruptionsPerCall: number;
+  patientTalkRatio: number | null;
+  reconnects: number;
+  errors: number;
+}
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function periodStart(date: Date, period: MetricsPeriod): string {
+  if (period === 'day') return localDate(date);
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return localDate(monday);
+}
+
+export function summarizeCalls(period: string, calls: CallRecord[]): MetricsSummary {
+  const metrics = calls.map(c => c.metrics);
+  const latencies = metrics.flatMap(m => m.latenciesMs);
+  const sum = (pick: (m: CallMetrics) => number) => metrics.reduce((total, m) => total + pick(m), 0);
+  return {
+    period,
+    calls: calls.length,
+    medianLatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    bookingRate: calls.length > 0 ? metrics.filter(m => m.bookingCompleted).length / calls.length : 0,
+    interruptionsPerCall: calls.length > 0 ? sum(m => m.interruptions) / calls.length : 0,
+    patientTalkRatio: talkRatio({ patientTalkMs: sum(m => m.patientTalkMs), agentTalkMs: sum(m => m.agentTalkMs) }),
+    reconnects: sum(m => m.reconnects),
+    errors: sum(m => m.errors),
+  };
+}
+
+/**
+ * One summary per day or week, newest first. Calls saved before metrics
+ * were collected are left out.
+ */
+export function aggregateMetrics(calls: CallRecord[], period: MetricsPeriod): MetricsSummary[] {
+  const groups = new Map<string, CallRecord[]>();
+  for (const call of calls) {
+    if (!call.metrics) continue;
+    const key = periodStart(call.startedAt, period);
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([key, group]) => summarizeCalls(key, group));
+}
+
+const csvCell = (value: string | number | boolean | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | boolean | null)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const round = (value: number | null, digits = 0) => (value === null ? null : Number(value.toFixed(digits)));
+
+export function buildSummaryCsv(summaries: MetricsSummary[]): string {
+  return toCsv(
+    ['period_start', 'calls', 'median_latency_ms', 'p95_latency_ms', 'booking_rate', 'interruptions_per_call', 'patient_talk_ratio', 'reconnects', 'errors'],
+    summaries.map(s => [
+      s.period,
+      s.calls,
+      round(s.medianLatencyMs),
+      round(s.p95LatencyMs),
+      round(s.bookingRate, 3),
+      round(s.interruptionsPerCall, 2),
+      round(s.patientTalkRatio, 3),
+      s.reconnects,
+      s.errors,
+    ]),
+  );
+}
+
+/** One row per call, for reviews that need more than the dashboard shows. */
+export function buildCallMetricsCsv(calls: CallRecord[]): string {
+  return toCsv(
+    ['call_id', 'started_at', 'duration_ms', 'outcome', 'language', 'median_latency_ms', 'p95_latency_ms', 'replies', 'interruptions',
+      'patient_turns', 'agent_turns', 'patient_talk_ms', 'agent_talk_ms', 'reconnects', 'errors', 'booking_completed'],
+    calls.filter(c => c.metrics).map(c => [
+      c.id,
+      c.startedAt.toISOString(),
+      c.durationMs,
+      c.outcome,
+      c.language,
+      percentile(c.metrics.latenciesMs, 50),
+      percentile(c.metrics.latenciesMs, 95),
+      c.metrics.latenciesMs.length,
+      c.metrics.interruptions,
+      c.metrics.patientTurns,
+      c.metrics.agentTurns,
+      c.metrics.patientTalkMs,
+      c.metrics.agentTalkMs,
+      c.metrics.reconnects,
+      c.metrics.errors,
+      c.metrics.bookingCompleted,
+    ]),
+  );
+}
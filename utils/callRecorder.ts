@@ -0,0 +1,199 @@
+import { RecordingFormat, RecordingSettings } from '../types';
+import { encodeWav, resampleInt16 } from './audio';
+import { CAPTURE_SAMPLE_RATE } from './micCapture';
+
+/** Sample rate of the Live model's audio, and of stereo WAV recordings. */
+export const AGENT_SAMPLE_RATE = 24000;
+
+const SETTINGS_KEY = 'canada-care.recordingSettings';
+const DEFAULT_SETTINGS: RecordingSettings = { format: 'webm', stems: false };
+
+export function getRecordingSettings(): RecordingSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      format: stored.format === 'wav' || stored.format === 'webm' ? stored.format : DEFAULT_SETTINGS.format,
+      stems: typeof stored.stems === 'boolean' ? stored.stems : DEFAULT_SETTINGS.stems,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function setRecordingSettings(settings: RecordingSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export interface RecordingResult {
+  /** Stereo: patient on the left channel, agent on the right. */
+  recording: Blob;
+  stems: { patient: Blob; agent: Blob } | null;
+}
+
+/**
+ * Records the two sides of a call separately. Connect the mic to
+ * `patientInput` and every agent source to `agentInput` (used for WebM), and
+ * feed the same audio as Int16 PCM through `addPatientPcm` / `addAgentPcm`
+ * (used for WAV). Whichever path the chosen format does not use is ignored.
+ */
+export interface CallRecorder {
+  format: RecordingFormat;
+  patientInput: AudioNode;
+  agentInput: AudioNode;
+  readonly isRecording: boolean;
+  start(): void;
+  /** 16 kHz mic chunks, in arrival order. */
+  addPatientPcm(pcm: Int16Array): void;
+  /** 24 kHz agent audio scheduled at `startTime` on the output context clock. */
+  addAgentPcm(pcm: Int16Array, startTime: number): void;
+  /** Drops agent audio scheduled after `time` because playback was cut off. */
+  truncateAgent(time: number): void;
+  stop(): Promise<RecordingResult>;
+}
+
+interface Segment {
+  at: number;
+  pcm: Int16Array;
+}
+
+/** Lays timed segments onto a silent track of `seconds` length. */
+function renderTrack(segments: Segment[], sampleRate: number, seconds: number): Int16Array {
+  const track = new Int16Array(Math.max(0, Math.round(seconds * sampleRate)));
+  for (const { at, pcm } of segments) {
+    const offset = Math.round(at * sampleRate);
+    if (offset >= track.length) continue;
+    track.set(pcm.subarray(0, track.length - offset), offset);
+  }
+  return track;
+}
+
+function createWavRecorder(ctx: AudioContext, stems: boolean): CallRecorder {
+  const patient: Segment[] = [];
+  const agent: Segment[] = [];
+  let startedAt = 0;
+  let startCtxTime = 0;
+  let patientEnd = 0;
+  let recording = false;
+
+  const elapsed = () => (performance.now() - startedAt) / 1000;
+
+  return {
+    format: 'wav',
+    patientInput: ctx.createGain(),
+    agentInput: ctx.createGain(),
+    get isRecording() { return recording; },
+    start() {
+      startedAt = performance.now();
+      startCtxTime = ctx.currentTime;
+      recording = true;
+    },
+    addPatientPcm(pcm) {
+      if (!recording) return;
+      // Chunks arrive in real time; place each where it ended, but never
+      // overlapping the previous one when the worklet delivers a burst.
+      const duration = pcm.length / CAPTURE_SAMPLE_RATE;
+      const at = Math.max(patientEnd, elapsed() - duration);
+      patient.push({ at, pcm: pcm.slice() });
+      patientEnd = at + duration;
+    },
+    addAgentPcm(pcm, startTime) {
+      if (!recording) return;
+      agent.push({ at: Math.max(0, startTime - startCtxTime), pcm: pcm.slice() });
+    },
+    truncateAgent(time) {
+      const cutoff = time - startCtxTime;
+      for (let i = agent.length - 1; i >= 0; i--) {
+        const segment = agent[i];
+        if (segment.at >= cutoff) {
+          agent.splice(i, 1);
+        } else {
+          const keep = Math.round((cutoff - segment.at) * AGENT_SAMPLE_RATE);
+          if (keep < segment.pcm.length) segment.pcm = segment.pcm.subarray(0, keep);
+        }
+      }
+    },
+    async stop() {
+      recording = false;
+      const seconds = elapsed();
+      const patientTrack = renderTrack(patient, CAPTURE_SAMPLE_RATE, seconds);
+      const agentTrack = renderTrack(agent, AGENT_SAMPLE_RATE, seconds);
+      const left = new Int16Array(agentTrack.length);
+      left.set(resampleInt16(patientTrack, CAPTURE_SAMPLE_RATE, AGENT_SAMPLE_RATE).subarray(0, left.length));
+      return {
+        recording: encodeWav([left, agentTrack], AGENT_SAMPLE_RATE),
+        stems: stems
+          ? { patient: encodeWav([patientTrack], CAPTURE_SAMPLE_RATE), agent: encodeWav([agentTrack], AGENT_SAMPLE_RATE) }
+          : null,
+      };
+    },
+  };
+}
+
+function recordStream(stream: MediaStream, mimeType: string): { recorder: MediaRecorder; done: Promise<Blob> } {
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const done = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'audio/webm' }));
+  });
+  return { recorder, done };
+}
+
+function createWebmRecorder(ctx: AudioContext, stems: boolean): CallRecorder {
+  const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+    ? 'audio/webm;codecs=opus'
+    : 'audio/webm';
+
+  const patientInput = ctx.createGain();
+  const agentInput = ctx.createGain();
+  const merger = ctx.createChannelMerger(2);
+  patientInput.connect(merger, 0, 0);
+  agentInput.connect(merger, 0, 1);
+
+  const stereoOut = ctx.createMediaStreamDestination();
+  stereoOut.channelCount = 2;
+  merger.connect(stereoOut);
+
+  const patientOut = stems ? ctx.createMediaStreamDestination() : null;
+  const agentOut = stems ? ctx.createMediaStreamDestination() : null;
+  if (patientOut) patientInput.connect(patientOut);
+  if (agentOut) agentInput.connect(agentOut);
+
+  let recorders: { recorder: MediaRecorder; done: Promise<Blob> }[] = [];
+
+  return {
+    format: 'webm',
+    patientInput,
+    agentInput,
+    get isRecording() { return recorders.some(r => r.recorder.state !== 'inactive'); },
+    start() {
+      recorders = [stereoOut, patientOut, agentOut]
+        .filter((out): out is MediaStreamAudioDestinationNode => out !== null)
+        .map(out => recordStream(out.stream, mimeType));
+      recorders.forEach(r => r.recorder.start(1000));
+    },
+    addPatientPcm() {},
+    addAgentPcm() {},
+    truncateAgent() {},
+    async stop() {
+      recorders.forEach(r => {
+        if (r.recorder.state !== 'inactive') r.recorder.stop();
+      });
+      const [recording, patient, agent] = await Promise.all(recorders.map(r => r.done));
+      patientInput.disconnect();
+      agentInput.disconnect();
+      merger.disconnect();
+      return { recording, stems: patient && agent ? { patient, agent } : null };
+    },
+  };
+}
+
+export function createCallRecorder(ctx: AudioContext, settings: RecordingSettings): CallRecorder {
+  return settings.format === 'wav' ? createWavRecorder(ctx, settings.stems) : createWebmRecorder(ctx, settings.stems);
+}
+
+export function recordingExtension(blob: Blob): string {
+  return blob.type.includes('wav') ? 'wav' : 'webm';
+}
@@ -0,0 +1,52 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { CallbackRequest } from '../types';
+
+export const CALLBACK_FUNCTION_DECLARATION: FunctionDeclaration = {
+  name: 'request_callback',
+  description: 'Log a request for staff to call the patient back once the hospital is open. Call only after reading the details back to the caller.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      patient_name: { type: Type.STRING, description: 'Full name of the patient.' },
+      phone: { type: Type.STRING, description: 'Number to call back.' },
+      reason: { type: Type.STRING, description: 'Short reason for the call, e.g. "book a cardiology follow-up".' },
+      preferred_time: { type: Type.STRING, description: 'When the caller would like to be called, in their words.' },
+    },
+    required: ['patient_name', 'phone', 'reason'],
+  },
+};
+
+export const CALLBACK_TOOL_INSTRUCTION = `
+====================
+AFTER HOURS (MANDATORY)
+====================
+- The hospital is closed right now, so you cannot book appointments on this call. Do not promise a time.
+- Say when the hospital next opens, then offer to take a callback request: Name -> Phone number -> Reason -> Preferred time to be called back.
+- Read the details back, then call request_callback. Only say the request is logged if the tool returns "requested".
+- If a tool returns an error, ask for the missing or corrected detail.
+`;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export function handleCallbackCall(call: FunctionCall, onRequest: (request: CallbackRequest) => void): FunctionResponse {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  const patientName = str(args.patient_name);
+  const phone = str(args.phone);
+  const reason = str(args.reason);
+  if (!patientName) return respond({ error: 'Patient name is required.' });
+  if (phone.replace(/\D/g, '').length < 10) return respond({ error: 'A 10-digit phone number is required.' });
+  if (!reason) return respond({ error: 'A reason for the callback is required.' });
+
+  const request: CallbackRequest = {
+    id: crypto.randomUUID(),
+    patientName,
+    phone,
+    reason,
+    preferredTime: str(args.preferred_time),
+    createdAt: new Date(),
+  };
+  onRequest(request);
+  return respond({ output: { status: 'requested', callback_id: request.id } });
+}
@@ -0,0 +1,13 @@
+/**
+ * Trims an agent caption to roughly the share of its audio that was played
+ * before an interruption. Output transcription runs ahead of playback and has
+ * no word timings, so the cut is proportional, snapped back to a word boundary.
+ */
+export function cutCaption(text: string, playedFraction: number): string {
+  if (playedFraction >= 1) return text;
+  const target = Math.floor(text.length * Math.max(0, playedFraction));
+  if (target === 0) return '';
+  const boundary = text.lastIndexOf(' ', target);
+  return text.slice(0, boundary > 0 ? boundary : target).trimEnd();
+}
+
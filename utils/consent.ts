@@ -0,0 +1,57 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { ConsentDecision, RecordingConsent } from '../types';
+
+const CONSENT_REQUIRED_KEY = 'canada-care.recordingConsentRequired';
+
+/** On by default: PIPEDA and the provincial health privacy acts expect informed consent. */
+export function getConsentRequired(): boolean {
+  return localStorage.getItem(CONSENT_REQUIRED_KEY) !== 'false';
+}
+
+export function setConsentRequired(required: boolean) {
+  localStorage.setItem(CONSENT_REQUIRED_KEY, String(required));
+}
+
+export function initialConsent(required: boolean): RecordingConsent {
+  return { decision: required ? 'pending' : 'not_required', decidedAt: null };
+}
+
+/** Recordings and transcripts may only be stored once the caller has agreed, or when consent is not asked for. */
+export function mayStoreCallContent(consent: RecordingConsent): boolean {
+  return consent.decision === 'granted' || consent.decision === 'not_required';
+}
+
+export const CONSENT_FUNCTION_DECLARATION: FunctionDeclaration = {
+  name: 'record_consent',
+  description: "Record the caller's answer to the call recording notice.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      decision: { type: Type.STRING, enum: ['granted', 'refused'], description: 'Whether the caller agreed to the call being recorded.' },
+    },
+    required: ['decision'],
+  },
+};
+
+export const CONSENT_TOOL_INSTRUCTION = `
+====================
+RECORDING CONSENT (MANDATORY)
+====================
+- Right after greeting, tell the caller the call is recorded and transcribed for quality and record-keeping, and ask whether they agree.
+- Call record_consent with their answer before helping with anything else. If the answer is unclear, ask again.
+- If they refuse, reassure them the call continues without recording, then carry on normally.
+- If they later withdraw consent, call record_consent again with "refused".
+`;
+
+export function handleConsentCall(call: FunctionCall, onDecision: (decision: ConsentDecision) => void): FunctionResponse {
+  const decision = call.args?.decision;
+  if (decision !== 'granted' && decision !== 'refused') {
+    return { id: call.id, name: call.name, response: { error: 'decision must be "granted" or "refused".' } };
+  }
+  onDecision(decision);
+  return {
+    id: call.id,
+    name: call.name,
+    response: { output: { status: 'recorded', recording: decision === 'granted' ? 'on' : 'off' } },
+  };
+}
@@ -0,0 +1,59 @@
+const DB_NAME = 'canada-care';
+const DB_VERSION = 2;
+
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  appointments: { keyPath: 'id' },
+  calls: { keyPath: 'id' },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, params] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, params);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDb();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+}
+
+export async function get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+export async function put<T>(storeName: string, value: T): Promise<void> {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+}
+
+export async function remove(storeName: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+}
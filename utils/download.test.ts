@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CallRecord } from '../types';
+import { formatCallLog } from './download';
+import { getStrings } from './i18n';
+
+const record = {
+  transcriptions: [{ type: 'user', text: 'I need to move my appointment.', timestamp: new Date('2026-03-09T15:00:00Z') }],
+  appointments: [{
+    id: 'a1',
+    slotId: 'Pediatrics|2026-03-12|09:30',
+    patientName: 'Sam Lee',
+    department: 'Pediatrics',
+    date: '2026-03-12',
+    time: '09:30',
+    phone: '416-555-0100',
+    createdAt: new Date('2026-03-09T15:02:00Z'),
+  }],
+  changes: [],
+  callbacks: [],
+  escalations: [],
+  draft: {},
+  intakes: [{
+    department: 'Pediatrics',
+    form: {
+      id: 'pediatrics-intake',
+      title: 'Pediatrics intake',
+      fields: [
+        { id: 'guardian_present', label: 'Is a guardian calling?', type: 'boolean', required: true },
+        { id: 'guardian_name', label: 'Guardian name', type: 'text', askIf: { field: 'guardian_present', equals: true } },
+      ],
+    },
+    answers: { guardian_present: false },
+    complete: true,
+    updatedAt: new Date('2026-03-09T15:01:00Z'),
+  }],
+} as unknown as CallRecord;
+
+describe('formatCallLog', () => {
+  it('includes bookings and intake answers alongside the transcript', () => {
+    const log = formatCallLog(record, getStrings('en-CA'));
+
+    expect(log).toContain('Appointments booked');
+    expect(log).toContain('Sam Lee, 416-555-0100 — Pediatrics, 2026-03-12 at 09:30');
+    expect(log).toContain('Intake: Pediatrics intake (Complete)\nIs a guardian calling?: No');
+    expect(log).not.toContain('Guardian name');
+    expect(log).toContain('I need to move my appointment.');
+  });
+});
@@ -0,0 +1,86 @@
+import { Appointment, AppointmentChange, CallbackRequest, CallRecord, EscalationEvent, IntakeResponse, TranscriptionEntry } from '../types';
+import { DRAFT_FIELDS, formatAppointmentDraft } from './appointmentDraft';
+import { Strings } from './i18n';
+import { formatIntakeValue, isFieldAsked } from './intakeForms';
+
+export function formatTranscript(entries: TranscriptionEntry[], strings: Pick<Strings, 'patient' | 'receptionist' | 'typed' | 'interrupted'>): string {
+  return entries
+    .map(t => {
+      const speaker = `${t.type === 'user' ? strings.patient : strings.receptionist}${t.typed ? ` (${strings.typed})` : ''}`;
+      return `[${t.timestamp.toLocaleTimeString()}] ${speaker}: ${t.text}${t.interrupted ? ` [${strings.interrupted}]` : ''}`;
+    })
+    .join('\n\n');
+}
+
+export function formatEscalations(events: EscalationEvent[], strings: Strings): string {
+  const lines = events.map(e => {
+    const label = e.kind === 'transfer' ? strings.transferRequested : e.category ? strings[`redFlag_${e.category}`] : strings.possibleEmergency;
+    return `[${e.at.toLocaleTimeString()}] ${label} (${strings[`escalationSource_${e.source}`]})${e.detail ? `: ${e.detail}` : ''}`;
+  });
+  return `${strings.escalations}\n${lines.join('\n')}`;
+}
+
+export function formatCallbacks(callbacks: CallbackRequest[], strings: Strings): string {
+  const lines = callbacks.map(c =>
+    `[${c.createdAt.toLocaleTimeString()}] ${c.patientName}, ${c.phone}: ${c.reason}${c.preferredTime ? ` (${strings.callbackPreferred}: ${c.preferredTime})` : ''}`
+  );
+  return `${strings.callbackRequests}\n${lines.join('\n')}`;
+}
+
+const slotLabel = (a: Appointment, strings: Strings) => `${a.department}, ${a.date} ${strings.at} ${a.time}`;
+
+export function formatAppointments(appointments: Appointment[], strings: Strings): string {
+  const lines = appointments.map(a => `[${a.createdAt.toLocaleTimeString()}] ${a.patientName}, ${a.phone} — ${slotLabel(a, strings)}`);
+  return `${strings.bookedAppointments}\n${lines.join('\n')}`;
+}
+
+/** Each intake's answered questions, under the form's title. */
+export function formatIntakes(intakes: IntakeResponse[], strings: Strings): string {
+  return intakes.map(intake => {
+    const lines = intake.form.fields
+      .filter(f => intake.answers[f.id] !== undefined && isFieldAsked(f, intake.answers))
+      .map(f => `${f.label}: ${formatIntakeValue(intake.answers[f.id], strings.yes, strings.no)}`);
+    return `${strings.intake}: ${intake.form.title} (${intake.complete ? strings.intakeComplete : strings.intakeIncomplete})\n${lines.join('\n')}`;
+  }).join('\n\n');
+}
+
+/** One line per change: "Rescheduled: name — before → after" or "Cancelled: name — slot". */
+export function formatAppointmentChanges(changes: AppointmentChange[], strings: Strings): string {
+  const lines = changes.map(c => {
+    const slots = c.kind === 'rescheduled' ? `${slotLabel(c.before, strings)} → ${slotLabel(c.after, strings)}` : slotLabel(c.before, strings);
+    return `[${c.at.toLocaleTimeString()}] ${strings[`change_${c.kind}`]}: ${c.before.patientName} — ${slots}`;
+  });
+  return `${strings.appointmentChanges}\n${lines.join('\n')}`;
+}
+
+/**
+ * Transcript plus escalations, bookings, appointment changes, intake answers,
+ * callback requests and the final appointment card, when captured.
+ */
+export function formatCallLog(record: CallRecord, strings: Strings): string {
+  const { escalations = [], changes = [], intakes = [], callbacks = [], draft = {} } = record;
+  const sections: string[] = [];
+  if (escalations.length > 0) sections.push(formatEscalations(escalations, strings));
+  if (record.appointments.length > 0) sections.push(formatAppointments(record.appointments, strings));
+  if (changes.length > 0) sections.push(formatAppointmentChanges(changes, strings));
+  if (intakes.length > 0) sections.push(formatIntakes(intakes, strings));
+  if (callbacks.length > 0) sections.push(formatCallbacks(callbacks, strings));
+  if (DRAFT_FIELDS.some(field => draft[field])) sections.push(formatAppointmentDraft(draft, strings));
+  sections.push(formatTranscript(record.transcriptions, strings));
+  return sections.join('\n\n----\n\n');
+}
+
+export function downloadUrl(url: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  URL.revokeObjectURL(url);
+}
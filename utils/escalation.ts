@@ -0,0 +1,181 @@
+import { Content, FunctionCall, FunctionDeclaration, FunctionResponse, FunctionResponseScheduling, Type } from '@google/genai';
+import { RedFlagCategory } from '../types';
+import { Strings } from './i18n';
+
+export const RED_FLAG_CATEGORIES: RedFlagCategory[] = ['cardiac', 'stroke', 'breathing', 'bleeding', 'overdose', 'unresponsive', 'self_harm'];
+
+// English and Canadian French phrasings, matched against lowercased
+// transcript text. Kept deliberately broad: a false alarm costs a staff
+// glance, a miss can cost a life.
+const RED_FLAG_PATTERNS: Record<RedFlagCategory, RegExp[]> = {
+  cardiac: [
+    /chest (pain|pressure|tightness)/,
+    /heart attack/,
+    /douleurs? (à|a|dans) la poitrine/,
+    /serrement (à|a|dans) la poitrine/,
+    /crise cardiaque/,
+  ],
+  stroke: [
+    /\bstroke\b/,
+    /face (is )?(drooping|droops)/,
+    /slurred speech/,
+    /can'?t (move|feel) (my|his|her|their) (arm|leg|face)/,
+    /\bavc\b/,
+    /accident vasculaire/,
+    /visage (qui )?(tombe|paralysé)/,
+  ],
+  breathing: [
+    /can'?t breathe/,
+    /cannot breathe/,
+    /(trouble|difficulty) breathing/,
+    /\bchoking\b/,
+    /not breathing/,
+    /peux pas respirer/,
+    /(difficulté|mal) à respirer/,
+    /s'étouffe/,
+    /respire (plus|pas)/,
+  ],
+  bleeding: [
+    /(severe|heavy) bleeding/,
+    /bleeding (a lot|heavily|everywhere)/,
+    /bleeding (that )?(won'?t|will not) stop/,
+    /saigne (beaucoup|énormément)/,
+    /hémorragie/,
+    /saignement (abondant|important)/,
+  ],
+  overdose: [
+    /overdos/,
+    /took too many (pills|tablets)/,
+    /\bsurdose\b/,
+    /trop de (pilules|comprimés|médicaments)/,
+  ],
+  unresponsive: [
+    /\bunconscious\b/,
+    /passed out/,
+    /(won'?t|will not|can'?t) wake (up|him|her|them)/,
+    /\binconscient/,
+    /s'est évanoui/,
+    /(réveille|se réveille) (pas|plus)/,
+  ],
+  self_harm: [
+    /\bkill (myself|me)\b/,
+    /\bsuicid/,
+    /end (my life|it all)/,
+    /hurt myself/,
+    /(don'?t|do not) want to (live|be alive)/,
+    /me tuer/,
+    /me suicider/,
+    /en finir/,
+    /me faire du mal/,
+  ],
+};
+
+export interface RedFlagMatch {
+  category: RedFlagCategory;
+  phrase: string;
+}
+
+/** Scans caller speech for emergency phrases. Returns the first match, if any. */
+export function detectRedFlag(text: string): RedFlagMatch | null {
+  const normalized = text.toLowerCase().normalize('NFC').replace(/[’‘]/g, "'");
+  for (const category of RED_FLAG_CATEGORIES) {
+    for (const pattern of RED_FLAG_PATTERNS[category]) {
+      const match = normalized.match(pattern);
+      if (match) return { category, phrase: match[0] };
+    }
+  }
+  return null;
+}
+
+export const ESCALATION_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'report_emergency',
+    description: 'Alert hospital staff that the caller may be describing a medical emergency or risk of self-harm. Returns the exact urgent message to say.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        category: { type: Type.STRING, enum: RED_FLAG_CATEGORIES, description: 'Closest kind of emergency.' },
+        summary: { type: Type.STRING, description: 'What the caller said, in a few words.' },
+      },
+      required: ['category', 'summary'],
+    },
+  },
+  {
+    name: 'transfer_to_staff',
+    description: 'Hand the call to a human staff member. The receptionist stops speaking once this is called.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        reason: { type: Type.STRING, description: 'Why the caller needs a person.' },
+      },
+      required: ['reason'],
+    },
+  },
+];
+
+export const ESCALATION_TOOL_INSTRUCTION = `
+====================
+EMERGENCIES & HANDOFF (MANDATORY)
+====================
+- If the caller describes chest pain, stroke signs, trouble breathing, heavy bleeding, an overdose, someone unresponsive, or thoughts of suicide or self-harm, call report_emergency immediately.
+- Then say the "say" text it returns, word for word, and stop booking. Never give medical advice or triage.
+- If the caller asks for a person, or you cannot help them, tell them you are transferring them to a staff member, then call transfer_to_staff.
+`;
+
+/** The scripted urgent message for a red flag, in the caller's language. */
+export function getUrgentScript(category: RedFlagCategory, strings: Strings): string {
+  return category === 'self_harm' ? strings.urgentScriptSelfHarm : strings.urgentScript;
+}
+
+/** Interrupts the receptionist and makes it read the urgent message. */
+export function buildUrgentTurns(category: RedFlagCategory, script: string): Content[] {
+  return [{
+    role: 'user',
+    parts: [{
+      text: `[System note: possible emergency detected (${category}). Staff have been alerted. Stop the booking and say this to the caller now, word for word: "${script}"]`,
+    }],
+  }];
+}
+
+export const RESUME_AGENT_TURNS: Content[] = [{
+  role: 'user',
+  parts: [{
+    text: '[System note: a staff member has handed the call back to you. Briefly let the caller know you are back and continue helping them.]',
+  }],
+}];
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+export interface EscalationHandlers {
+  /** Returns the urgent script to read, or null if this emergency was already announced. */
+  onEmergency: (category: RedFlagCategory, summary: string) => string | null;
+  onTransfer: (reason: string) => void;
+}
+
+export function handleEscalationCall(call: FunctionCall, handlers: EscalationHandlers): FunctionResponse {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>, silent = false): FunctionResponse => ({
+    id: call.id,
+    name: call.name,
+    ...(silent ? { scheduling: FunctionResponseScheduling.SILENT } : {}),
+    response,
+  });
+
+  if (call.name === 'transfer_to_staff') {
+    handlers.onTransfer(str(args.reason));
+    return respond({ output: { status: 'transferred' } }, true);
+  }
+
+  const category = RED_FLAG_CATEGORIES.find(c => c === args.category);
+  if (!category) return respond({ error: `Unknown emergency category "${str(args.category)}".` });
+  const script = handlers.onEmergency(category, str(args.summary));
+  return respond({
+    output: script
+      ? { status: 'staff_alerted', say: script }
+      : { status: 'staff_already_alerted', note: 'The urgent message has already been given. Only repeat it if the caller asks.' },
+  });
+}
+
+export function isEscalationCall(call: FunctionCall): boolean {
+  return ESCALATION_FUNCTION_DECLARATIONS.some(d => d.name === call.name);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { CallRecord } from '../types';
+import { buildFhirBundle } from './fhir';
+
+const record = {
+  endedAt: new Date('2026-03-09T15:10:00Z'),
+  timeZone: 'America/Toronto',
+  appointments: [],
+  changes: [],
+  intakes: [{
+    department: 'Orthopedics',
+    form: {
+      id: 'orthopedics-intake',
+      title: 'Orthopedics intake',
+      fields: [{ id: 'body_site', label: 'Which part of the body is affected?', type: 'choice', options: ['Knee', 'Hip'], required: true }],
+    },
+    answers: { body_site: 'Knee' },
+    complete: true,
+    updatedAt: new Date('2026-03-09T15:05:00Z'),
+  }],
+} as unknown as CallRecord;
+
+describe('buildFhirBundle', () => {
+  it('codes choice answers against a system for their question', () => {
+    const bundle = JSON.parse(buildFhirBundle(record));
+    const response = bundle.entry.find((e: { resource: { resourceType: string } }) => e.resource.resourceType === 'QuestionnaireResponse').resource;
+
+    expect(response.item[0].answer[0].valueCoding).toEqual({
+      system: 'urn:canada-care:questionnaire:orthopedics-intake:body_site',
+      code: 'Knee',
+      display: 'Knee',
+    });
+  });
+});
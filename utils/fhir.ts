@@ -0,0 +1,89 @@
+import { Appointment, CallRecord, IntakeField, IntakeResponse, IntakeValue } from '../types';
+import { SLOT_MINUTES, toZonedIso } from './hours';
+import { isFieldAsked } from './intakeForms';
+
+// Minimal FHIR R4 resources: only the elements this export fills in.
+
+type FhirResource = { resourceType: string } & Record<string, unknown>;
+
+const QUESTIONNAIRE_BASE = 'urn:canada-care:questionnaire:';
+
+/** Choice answers are coded against their own question: one code system per form field. */
+const optionSystem = (formId: string, field: IntakeField) => `${QUESTIONNAIRE_BASE}${formId}:${field.id}`;
+
+function answerValue(formId: string, field: IntakeField, value: IntakeValue): Record<string, unknown> {
+  switch (field.type) {
+    case 'integer':
+      return { valueInteger: value };
+    case 'boolean':
+      return { valueBoolean: value };
+    case 'date':
+      return { valueDate: value };
+    case 'choice':
+      return { valueCoding: { system: optionSystem(formId, field), code: value, display: value } };
+    default:
+      return { valueString: value };
+  }
+}
+
+function buildQuestionnaireResponse(intake: IntakeResponse, patientName: string | undefined): FhirResource {
+  return {
+    resourceType: 'QuestionnaireResponse',
+    questionnaire: `${QUESTIONNAIRE_BASE}${intake.form.id}`,
+    status: intake.complete ? 'completed' : 'in-progress',
+    authored: intake.updatedAt.toISOString(),
+    ...(patientName ? { subject: { display: patientName } } : {}),
+    item: intake.form.fields
+      .filter(f => intake.answers[f.id] !== undefined && isFieldAsked(f, intake.answers))
+      .map(f => ({ linkId: f.id, text: f.label, answer: [answerValue(intake.form.id, f, intake.answers[f.id])] })),
+  };
+}
+
+function buildAppointment(appointment: Appointment, timeZone: string | undefined, intakeUrl: string | undefined): FhirResource {
+  const endTime = (() => {
+    const [h, m] = appointment.time.split(':').map(Number);
+    const total = h * 60 + m + SLOT_MINUTES;
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  })();
+  return {
+    resourceType: 'Appointment',
+    id: appointment.id,
+    status: appointment.cancelledAt ? 'cancelled' : 'booked',
+    serviceType: [{ text: appointment.department }],
+    // Records saved before the site's time zone was stored have no absolute times.
+    ...(timeZone
+      ? { start: toZonedIso(appointment.date, appointment.time, timeZone), end: toZonedIso(appointment.date, endTime, timeZone) }
+      : {}),
+    created: appointment.createdAt.toISOString(),
+    participant: [{ actor: { display: appointment.patientName }, status: 'accepted' }],
+    ...(intakeUrl ? { supportingInformation: [{ reference: intakeUrl }] } : {}),
+  };
+}
+
+/**
+ * The call's appointments and intake answers as a FHIR R4 collection Bundle.
+ * Each appointment points at the QuestionnaireResponse for its department
+ * through `supportingInformation`.
+ */
+export function buildFhirBundle(record: CallRecord): string {
+  const intakes = (record.intakes ?? []).map(intake => ({ intake, fullUrl: `urn:uuid:${crypto.randomUUID()}` }));
+  const appointments = [...record.appointments, ...(record.changes ?? []).map(c => c.after)];
+
+  const entries = [
+    ...appointments.map(a => ({
+      fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+      resource: buildAppointment(a, record.timeZone, intakes.find(i => i.intake.department === a.department)?.fullUrl),
+    })),
+    ...intakes.map(({ intake, fullUrl }) => ({
+      fullUrl,
+      resource: buildQuestionnaireResponse(intake, appointments.find(a => a.department === intake.department)?.patientName),
+    })),
+  ];
+
+  return JSON.stringify({
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: record.endedAt.toISOString(),
+    entry: entries,
+  }, null, 2);
+}
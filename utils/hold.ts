@@ -0,0 +1,67 @@
+import { Content } from '@google/genai';
+
+export const HOLD_START_TURNS: Content[] = [{
+  role: 'user',
+  parts: [{
+    text: '[System note: staff have put the caller on hold. They cannot hear you. Stay silent until you are told they are back.]',
+  }],
+}];
+
+export const HOLD_END_TURNS: Content[] = [{
+  role: 'user',
+  parts: [{
+    text: '[System note: the caller is back from hold. Thank them for waiting and continue from where you left off. Do not greet them again.]',
+  }],
+}];
+
+// A slow, quiet phrase (C major arpeggio) repeated until the hold ends.
+const HOLD_NOTES_HZ = [523.25, 659.25, 783.99, 659.25];
+const NOTE_SECONDS = 0.6;
+const PHRASE_GAP_SECONDS = 1.6;
+const VOLUME = 0.08;
+
+export interface HoldAudio {
+  stop(): void;
+}
+
+/**
+ * Plays hold music on `ctx` (to the speakers only, never into the session or
+ * the recording). Notes are scheduled one phrase ahead.
+ */
+export function startHoldAudio(ctx: AudioContext): HoldAudio {
+  const output = ctx.createGain();
+  output.gain.value = VOLUME;
+  output.connect(ctx.destination);
+
+  const phraseSeconds = HOLD_NOTES_HZ.length * NOTE_SECONDS + PHRASE_GAP_SECONDS;
+  let nextPhrase = ctx.currentTime + 0.1;
+
+  const schedulePhrase = () => {
+    nextPhrase = Math.max(nextPhrase, ctx.currentTime + 0.1);
+    HOLD_NOTES_HZ.forEach((hz, i) => {
+      const start = nextPhrase + i * NOTE_SECONDS;
+      const osc = ctx.createOscillator();
+      const envelope = ctx.createGain();
+      osc.type = 'sine';
+      osc.frequency.value = hz;
+      envelope.gain.setValueAtTime(0, start);
+      envelope.gain.linearRampToValueAtTime(1, start + 0.05);
+      envelope.gain.exponentialRampToValueAtTime(0.001, start + NOTE_SECONDS * 1.5);
+      osc.connect(envelope).connect(output);
+      osc.start(start);
+      osc.stop(start + NOTE_SECONDS * 1.5);
+    });
+    nextPhrase += phraseSeconds;
+  };
+
+  schedulePhrase();
+  const timer = window.setInterval(schedulePhrase, phraseSeconds * 1000);
+
+  return {
+    stop() {
+      clearInterval(timer);
+      output.gain.setTargetAtTime(0, ctx.currentTime, 0.05);
+      window.setTimeout(() => output.disconnect(), 300);
+    },
+  };
+}
@@ -0,0 +1,209 @@
+import { HospitalProfile, IntakeFieldType, Province } from '../types';
+import { isValidTimeZone, WEEKDAYS } from './hours';
+
+export const DEFAULT_SITE = 'canada-care';
+
+const SITE_PATTERN = /^[a-z0-9-]+$/;
+
+const PROVINCES: Province[] = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+export class HospitalProfileError extends Error {
+  constructor(source: string, public readonly problems: string[]) {
+    super(`Invalid hospital profile "${source}":\n- ${problems.join('\n- ')}`);
+    this.name = 'HospitalProfileError';
+  }
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function checkWeeklyHours(raw: unknown, path: string, problems: string[]) {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    problems.push(`"${path}" must be an object keyed by weekday (${WEEKDAYS.join(', ')}).`);
+    return;
+  }
+  for (const [day, hours] of Object.entries(raw)) {
+    if (!WEEKDAYS.includes(day as typeof WEEKDAYS[number])) {
+      problems.push(`"${path}" has unknown weekday "${day}".`);
+      continue;
+    }
+    const { open, close } = (hours ?? {}) as Record<string, unknown>;
+    if (typeof open !== 'string' || typeof close !== 'string' || !TIME_PATTERN.test(open) || !TIME_PATTERN.test(close) || open >= close) {
+      problems.push(`"${path}.${day}" needs "open" before "close", as HH:MM.`);
+    }
+  }
+}
+
+const FIELD_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const INTAKE_FIELD_TYPES: IntakeFieldType[] = ['text', 'integer', 'boolean', 'date', 'choice'];
+
+function checkIntakeForms(raw: unknown, departments: unknown[], problems: string[]) {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    problems.push('"intakeForms" must be an object keyed by department.');
+    return;
+  }
+  const formIds = new Set<string>();
+  for (const [dept, value] of Object.entries(raw)) {
+    const path = `intakeForms.${dept}`;
+    if (!departments.includes(dept)) problems.push(`"intakeForms" references unknown department "${dept}".`);
+    const form = (value ?? {}) as Record<string, unknown>;
+    if (!isNonEmptyString(form.id) || !isNonEmptyString(form.title)) problems.push(`"${path}" needs an id and title.`);
+    else if (formIds.has(form.id)) problems.push(`"${path}.id" is used by another form.`);
+    else formIds.add(form.id);
+    if (!Array.isArray(form.fields) || form.fields.length === 0) {
+      problems.push(`"${path}.fields" must be a non-empty array.`);
+      continue;
+    }
+
+    const seen = new Map<string, Record<string, unknown>>();
+    form.fields.forEach((f, i) => {
+      const field = (f ?? {}) as Record<string, unknown>;
+      const fieldPath = `${path}.fields[${i}]`;
+      if (typeof field.id !== 'string' || !FIELD_ID_PATTERN.test(field.id)) {
+        problems.push(`"${fieldPath}.id" must be lowercase letters, digits and underscores.`);
+      } else if (seen.has(field.id)) {
+        problems.push(`"${fieldPath}.id" repeats "${field.id}".`);
+      }
+      if (!isNonEmptyString(field.label)) problems.push(`"${fieldPath}.label" must be a non-empty string.`);
+      if (!INTAKE_FIELD_TYPES.includes(field.type as IntakeFieldType)) {
+        problems.push(`"${fieldPath}.type" must be one of ${INTAKE_FIELD_TYPES.join(', ')}.`);
+      }
+      if (field.type === 'choice' && (!Array.isArray(field.options) || field.options.length === 0 || !field.options.every(isNonEmptyString))) {
+        problems.push(`"${fieldPath}.options" must list the allowed answers.`);
+      }
+      for (const bound of ['min', 'max']) {
+        if (field[bound] !== undefined && (field.type !== 'integer' || !Number.isInteger(field[bound]))) {
+          problems.push(`"${fieldPath}.${bound}" is only allowed as a whole number on integer fields.`);
+        }
+      }
+      for (const flag of ['required', 'phi']) {
+        if (field[flag] !== undefined && typeof field[flag] !== 'boolean') problems.push(`"${fieldPath}.${flag}" must be true or false.`);
+      }
+      if (field.askIf !== undefined) {
+        const { field: target, equals } = (field.askIf ?? {}) as Record<string, unknown>;
+        const source = typeof target === 'string' ? seen.get(target) : undefined;
+        if (!source) {
+          problems.push(`"${fieldPath}.askIf.field" must name an earlier field.`);
+        } else if (
+          (source.type === 'boolean' && typeof equals !== 'boolean')
+          || (source.type === 'integer' && !Number.isInteger(equals))
+          || (source.type === 'choice' && !(source.options as unknown[] | undefined)?.includes(equals))
+          || (['text', 'date'].includes(source.type as string) && typeof equals !== 'string')
+        ) {
+          problems.push(`"${fieldPath}.askIf.equals" is not a possible answer to "${target}".`);
+        }
+      }
+      if (typeof field.id === 'string') seen.set(field.id, field);
+    });
+  }
+}
+
+/**
+ * Checks an untrusted JSON value against the HospitalProfile shape and
+ * cross-references departments, labels and clinicians.
+ */
+export function validateHospitalProfile(raw: unknown, source: string): HospitalProfile {
+  const problems: string[] = [];
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new HospitalProfileError(source, ['Profile must be a JSON object.']);
+  }
+  const p = raw as Record<string, unknown>;
+
+  for (const key of ['id', 'name', 'shortName', 'address', 'phone', 'hours']) {
+    if (!isNonEmptyString(p[key])) problems.push(`"${key}" must be a non-empty string.`);
+  }
+
+  if (!PROVINCES.includes(p.province as Province)) {
+    problems.push(`"province" must be one of ${PROVINCES.join(', ')}.`);
+  }
+
+  if (!isNonEmptyString(p.timeZone) || !isValidTimeZone(p.timeZone)) {
+    problems.push('"timeZone" must be an IANA time zone such as "America/Toronto".');
+  }
+  checkWeeklyHours(p.openingHours, 'openingHours', problems);
+  if (p.observesFederalHolidays !== undefined && typeof p.observesFederalHolidays !== 'boolean') {
+    problems.push('"observesFederalHolidays" must be true or false.');
+  }
+
+  const departments = Array.isArray(p.departments) ? p.departments : [];
+  if (departments.length === 0 || !departments.every(isNonEmptyString)) {
+    problems.push('"departments" must be a non-empty array of strings.');
+  } else if (new Set(departments.map(d => d.toLowerCase())).size !== departments.length) {
+    problems.push('"departments" contains duplicates.');
+  }
+
+  const labels = p.departmentLabels;
+  if (typeof labels !== 'object' || labels === null || Array.isArray(labels)) {
+    problems.push('"departmentLabels" must be an object keyed by department.');
+  } else {
+    for (const [dept, label] of Object.entries(labels)) {
+      if (!departments.includes(dept)) problems.push(`"departmentLabels" references unknown department "${dept}".`);
+      if (!isNonEmptyString(label)) problems.push(`"departmentLabels.${dept}" must be a non-empty string.`);
+    }
+  }
+
+  if (p.departmentHours !== undefined) {
+    if (typeof p.departmentHours !== 'object' || p.departmentHours === null || Array.isArray(p.departmentHours)) {
+      problems.push('"departmentHours" must be an object keyed by department.');
+    } else {
+      for (const [dept, hours] of Object.entries(p.departmentHours)) {
+        if (!departments.includes(dept)) problems.push(`"departmentHours" references unknown department "${dept}".`);
+        checkWeeklyHours(hours, `departmentHours.${dept}`, problems);
+      }
+    }
+  }
+
+  if (!Array.isArray(p.clinicians)) {
+    problems.push('"clinicians" must be an array.');
+  } else {
+    p.clinicians.forEach((c, i) => {
+      const clinician = (c ?? {}) as Record<string, unknown>;
+      if (!isNonEmptyString(clinician.name) || !isNonEmptyString(clinician.title)) {
+        problems.push(`"clinicians[${i}]" needs a name and title.`);
+      }
+      if (!departments.includes(clinician.department)) {
+        problems.push(`"clinicians[${i}].department" must be one of the listed departments.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(p.policies) || !p.policies.every(isNonEmptyString)) {
+    problems.push('"policies" must be an array of strings.');
+  }
+
+  if (p.intakeForms !== undefined) checkIntakeForms(p.intakeForms, departments, problems);
+
+  if (problems.length > 0) throw new HospitalProfileError(source, problems);
+  return p as unknown as HospitalProfile;
+}
+
+/** Resolves the site from `?site=` and loads its profile from /profiles. */
+export async function loadHospitalProfile(search: string = window.location.search): Promise<HospitalProfile> {
+  const site = new URLSearchParams(search).get('site') || DEFAULT_SITE;
+  if (!SITE_PATTERN.test(site)) {
+    throw new HospitalProfileError(site, ['Site id may only contain lowercase letters, digits and dashes.']);
+  }
+
+  const url = `/profiles/${site}.json`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (e) {
+    throw new HospitalProfileError(site, [`Could not fetch ${url}: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  if (!response.ok) throw new HospitalProfileError(site, [`${url} returned HTTP ${response.status}.`]);
+
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new HospitalProfileError(site, [`${url} is not valid JSON.`]);
+  }
+  return validateHospitalProfile(raw, site);
+}
+
+export function getDepartmentLabel(profile: HospitalProfile, department: string): string {
+  return profile.departmentLabels[department] ?? department;
+}
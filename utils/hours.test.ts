@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HospitalProfile } from '../types';
+import { getOpeningHours, getStatutoryHolidays, withOpeningHours } from './hours';
+import { createLocalScheduleStore } from './scheduleStore';
+
+const profile = {
+  province: 'ON',
+  timeZone: 'America/Toronto',
+  departments: ['General', 'Imaging'],
+  openingHours: {
+    mon: { open: '10:00', close: '12:00' },
+    tue: { open: '10:00', close: '12:00' },
+    wed: { open: '10:00', close: '12:00' },
+    thu: { open: '10:00', close: '12:00' },
+    fri: { open: '10:00', close: '12:00' },
+  },
+  departmentHours: { Imaging: { sat: { open: '08:00', close: '12:00' } } },
+} as unknown as HospitalProfile;
+
+describe('getStatutoryHolidays', () => {
+  it('dates the moving holidays', () => {
+    const dates = Object.fromEntries(getStatutoryHolidays(2026, 'ON').map(h => [h.id, h.date]));
+
+    expect(dates).toMatchObject({ familyDay: '2026-02-16', goodFriday: '2026-04-03', victoriaDay: '2026-05-18', thanksgiving: '2026-10-12' });
+  });
+
+  it('observes weekend holidays on the next free weekdays', () => {
+    const observed = getStatutoryHolidays(2027, 'ON').filter(h => h.observed);
+
+    // Christmas falls on a Saturday and Boxing Day on a Sunday.
+    expect(observed.map(h => [h.id, h.date])).toEqual([['christmasDay', '2027-12-27'], ['boxingDay', '2027-12-28']]);
+  });
+
+  it('adds federal holidays only when asked', () => {
+    expect(getStatutoryHolidays(2026, 'QC').map(h => h.id)).not.toContain('remembranceDay');
+    expect(getStatutoryHolidays(2026, 'QC', true).map(h => h.id)).toContain('remembranceDay');
+  });
+});
+
+describe('getOpeningHours', () => {
+  it('uses department hours over the site hours', () => {
+    expect(getOpeningHours(profile, 'imaging', '2026-03-14')).toEqual({ open: '08:00', close: '12:00' });
+    expect(getOpeningHours(profile, 'General', '2026-03-14')).toBeNull();
+  });
+
+  it('closes on statutory holidays', () => {
+    expect(getOpeningHours(profile, 'General', '2026-04-03')).toBeNull();
+  });
+});
+
+describe('withOpeningHours', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 11:00 on Tuesday 2026-03-10 in Toronto.
+    vi.setSystemTime(new Date('2026-03-10T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createStore = () => withOpeningHours(createLocalScheduleStore({ departments: profile.departments, timeZone: profile.timeZone }), profile);
+
+  it('offers only slots inside opening hours that have not started', async () => {
+    const store = createStore();
+
+    expect((await store.checkAvailability('General', '2026-03-10')).map(s => s.time)).toEqual(['11:30']);
+    expect((await store.checkAvailability('General', '2026-03-11')).map(s => s.time)).toEqual(['10:00', '10:30', '11:00', '11:30']);
+  });
+
+  it('refuses holidays and slots outside opening hours', async () => {
+    const store = createStore();
+
+    await expect(store.checkAvailability('General', '2026-04-03')).rejects.toThrow('closed on 2026-04-03 for Good Friday');
+    await expect(store.holdSlot('General|2026-03-11|15:00')).rejects.toThrow('outside opening hours');
+  });
+});
@@ -0,0 +1,340 @@
+import { AppointmentSlot, HospitalProfile, OpeningHours, Province, Weekday, WeeklyHours } from '../types';
+import { parseSlotId, ScheduleStore } from './scheduleStore';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Length of a bookable appointment slot. */
+export const SLOT_MINUTES = 30;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  sun: 'Sunday', mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday', thu: 'Thursday', fri: 'Friday', sat: 'Saturday',
+};
+
+const ALL_PROVINCES: Province[] = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+export type HolidayId =
+  | 'newYearsDay' | 'familyDay' | 'louisRielDay' | 'islanderDay' | 'heritageDay' | 'goodFriday'
+  | 'victoriaDay' | 'patriotsDay' | 'indigenousPeoplesDay' | 'saintJeanBaptiste' | 'canadaDay'
+  | 'civicHoliday' | 'discoveryDay' | 'labourDay' | 'truthAndReconciliationDay' | 'thanksgiving'
+  | 'remembranceDay' | 'christmasDay' | 'boxingDay';
+
+interface HolidayRule {
+  id: HolidayId;
+  /** English name, for the agent's instruction. */
+  name: string;
+  date: (year: number) => string;
+  /** Fixed calendar dates are also observed on the next weekday when they fall on a weekend. */
+  fixed?: boolean;
+  /** A holiday under the Canada Labour Code. */
+  federal?: boolean;
+  /** Where it is a provincial or territorial statutory holiday. */
+  provinces: Province[];
+}
+
+export interface Holiday {
+  id: HolidayId;
+  name: string;
+  date: string;
+  /** Set when this is the weekday a weekend holiday moves to. */
+  observed?: boolean;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+function parseIsoDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function addDays(date: string, days: number): string {
+  const d = parseIsoDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return isoDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+export function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[parseIsoDate(date).getUTCDay()];
+}
+
+/** The nth (1-based) occurrence of a weekday in a month. */
+function nthWeekday(year: number, month: number, weekday: Weekday, n: number): string {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const offset = (WEEKDAYS.indexOf(weekday) - first + 7) % 7;
+  return isoDate(year, month, 1 + offset + (n - 1) * 7);
+}
+
+/** Gregorian Easter Sunday (anonymous algorithm). */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+}
+
+/** The Monday before May 25. */
+const mondayBeforeMay25 = (year: number) => {
+  const may24 = isoDate(year, 5, 24);
+  return addDays(may24, -((parseIsoDate(may24).getUTCDay() + 6) % 7));
+};
+
+const HOLIDAY_RULES: HolidayRule[] = [
+  { id: 'newYearsDay', name: "New Year's Day", date: y => isoDate(y, 1, 1), fixed: true, federal: true, provinces: ALL_PROVINCES },
+  { id: 'familyDay', name: 'Family Day', date: y => nthWeekday(y, 2, 'mon', 3), provinces: ['AB', 'BC', 'NB', 'ON', 'SK'] },
+  { id: 'louisRielDay', name: 'Louis Riel Day', date: y => nthWeekday(y, 2, 'mon', 3), provinces: ['MB'] },
+  { id: 'islanderDay', name: 'Islander Day', date: y => nthWeekday(y, 2, 'mon', 3), provinces: ['PE'] },
+  { id: 'heritageDay', name: 'Heritage Day', date: y => nthWeekday(y, 2, 'mon', 3), provinces: ['NS'] },
+  { id: 'goodFriday', name: 'Good Friday', date: y => addDays(easterSunday(y), -2), federal: true, provinces: ALL_PROVINCES },
+  { id: 'victoriaDay', name: 'Victoria Day', date: mondayBeforeMay25, federal: true, provinces: ['AB', 'BC', 'MB', 'ON', 'SK', 'NT', 'NU', 'YT'] },
+  { id: 'patriotsDay', name: "National Patriots' Day", date: mondayBeforeMay25, provinces: ['QC'] },
+  { id: 'indigenousPeoplesDay', name: 'National Indigenous Peoples Day', date: y => isoDate(y, 6, 21), fixed: true, provinces: ['NT', 'YT'] },
+  { id: 'saintJeanBaptiste', name: 'Saint-Jean-Baptiste Day', date: y => isoDate(y, 6, 24), fixed: true, provinces: ['QC'] },
+  { id: 'canadaDay', name: 'Canada Day', date: y => isoDate(y, 7, 1), fixed: true, federal: true, provinces: ALL_PROVINCES },
+  { id: 'civicHoliday', name: 'Civic Holiday', date: y => nthWeekday(y, 8, 'mon', 1), provinces: ['BC', 'NB', 'SK', 'NT', 'NU'] },
+  { id: 'discoveryDay', name: 'Discovery Day', date: y => nthWeekday(y, 8, 'mon', 3), provinces: ['YT'] },
+  { id: 'labourDay', name: 'Labour Day', date: y => nthWeekday(y, 9, 'mon', 1), federal: true, provinces: ALL_PROVINCES },
+  { id: 'truthAndReconciliationDay', name: 'National Day for Truth and Reconciliation', date: y => isoDate(y, 9, 30), fixed: true, federal: true, provinces: ['BC', 'MB', 'NT', 'NU', 'PE', 'YT'] },
+  { id: 'thanksgiving', name: 'Thanksgiving', date: y => nthWeekday(y, 10, 'mon', 2), federal: true, provinces: ['AB', 'BC', 'MB', 'ON', 'QC', 'SK', 'NT', 'NU', 'YT'] },
+  { id: 'remembranceDay', name: 'Remembrance Day', date: y => isoDate(y, 11, 11), fixed: true, federal: true, provinces: ['AB', 'BC', 'NB', 'NL', 'NT', 'NU', 'PE', 'SK', 'YT'] },
+  { id: 'christmasDay', name: 'Christmas Day', date: y => isoDate(y, 12, 25), fixed: true, federal: true, provinces: ALL_PROVINCES },
+  { id: 'boxingDay', name: 'Boxing Day', date: y => isoDate(y, 12, 26), fixed: true, federal: true, provinces: ['ON'] },
+];
+
+/** Statutory holidays the site closes for in a year, including weekday stand-ins for weekend ones. */
+export function getStatutoryHolidays(year: number, province: Province, includeFederal: boolean = false): Holiday[] {
+  const rules = HOLIDAY_RULES.filter(r => r.provinces.includes(province) || (includeFederal && r.federal));
+  const holidays: Holiday[] = rules.map(r => ({ id: r.id, name: r.name, date: r.date(year) }));
+  const taken = new Set(holidays.map(h => h.date));
+
+  // In calendar order so Christmas moves to Monday before Boxing Day claims Tuesday.
+  for (const rule of rules.filter(r => r.fixed).sort((a, b) => a.date(year).localeCompare(b.date(year)))) {
+    let date = rule.date(year);
+    if (weekdayOf(date) !== 'sat' && weekdayOf(date) !== 'sun') continue;
+    do date = addDays(date, 1); while (weekdayOf(date) === 'sat' || weekdayOf(date) === 'sun' || taken.has(date));
+    taken.add(date);
+    holidays.push({ id: rule.id, name: rule.name, date, observed: true });
+  }
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function getHoliday(profile: HospitalProfile, date: string): Holiday | null {
+  const year = Number(date.slice(0, 4));
+  return getStatutoryHolidays(year, profile.province, profile.observesFederalHolidays).find(h => h.date === date) ?? null;
+}
+
+export interface SiteClock {
+  date: string;
+  time: string;
+  weekday: Weekday;
+  timeZone: string;
+}
+
+/** The wall clock at the site, whatever time zone the browser is in. */
+export function getSiteClock(timeZone: string, now: Date = new Date()): SiteClock {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now).map(p => [p.type, p.value]),
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return { date, time: `${parts.hour}:${parts.minute}`, weekday: weekdayOf(date), timeZone };
+}
+
+/**
+ * A site wall-clock date and time as an ISO 8601 instant with the site's UTC
+ * offset, e.g. "2026-03-09T10:30:00-04:00".
+ */
+export function toZonedIso(date: string, time: string, timeZone: string): string {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const offsetAt = (instant: number) => {
+    const clock = getSiteClock(timeZone, new Date(instant));
+    return Date.parse(`${clock.date}T${clock.time}:00Z`) - Math.floor(instant / 60_000) * 60_000;
+  };
+  // Check the offset again at the result, in case a DST change lies in between.
+  const offset = offsetAt(wall - offsetAt(wall));
+  const minutes = Math.abs(Math.round(offset / 60_000));
+  return `${date}T${time}:00${offset < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getWeeklyHours(profile: HospitalProfile, department?: string): WeeklyHours {
+  const key = department && Object.keys(profile.departmentHours ?? {}).find(d => d.toLowerCase() === department.trim().toLowerCase());
+  return (key && profile.departmentHours?.[key]) || profile.openingHours;
+}
+
+/** A department's hours on a date, or null when it is closed all day. */
+export function getOpeningHours(profile: HospitalProfile, department: string, date: string): OpeningHours | null {
+  if (getHoliday(profile, date)) return null;
+  return getWeeklyHours(profile, department)[weekdayOf(date)] ?? null;
+}
+
+export interface SiteStatus {
+  clock: SiteClock;
+  isOpen: boolean;
+  holiday: Holiday | null;
+  openDepartments: string[];
+  /** When the first department next opens, looking up to two weeks ahead. */
+  nextOpening: { date: string; time: string } | null;
+}
+
+export function getSiteStatus(profile: HospitalProfile, now: Date = new Date()): SiteStatus {
+  const clock = getSiteClock(profile.timeZone, now);
+  const openDepartments = profile.departments.filter(d => {
+    const hours = getOpeningHours(profile, d, clock.date);
+    return !!hours && hours.open <= clock.time && clock.time < hours.close;
+  });
+
+  let nextOpening: SiteStatus['nextOpening'] = null;
+  for (let i = 0; i < 14 && !nextOpening; i++) {
+    const date = addDays(clock.date, i);
+    const opens = profile.departments
+      .map(d => getOpeningHours(profile, d, date)?.open)
+      .filter((open): open is string => !!open && (i > 0 || open > clock.time))
+      .sort();
+    if (opens.length > 0) nextOpening = { date, time: opens[0] };
+  }
+
+  return { clock, isOpen: openDepartments.length > 0, holiday: getHoliday(profile, clock.date), openDepartments, nextOpening };
+}
+
+/** "Mon-Fri 09:00-17:00; Sat 08:00-12:00", grouping consecutive days with the same hours. */
+export function formatWeeklyHours(hours: WeeklyHours): string {
+  const order: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+  const groups: { from: Weekday; to: Weekday; hours: OpeningHours }[] = [];
+  for (const day of order) {
+    const h = hours[day];
+    if (!h) continue;
+    const last = groups[groups.length - 1];
+    const follows = last && order.indexOf(day) === order.indexOf(last.to) + 1;
+    if (follows && last.hours.open === h.open && last.hours.close === h.close) {
+      last.to = day;
+    } else {
+      groups.push({ from: day, to: day, hours: h });
+    }
+  }
+  if (groups.length === 0) return 'closed';
+  const label = (d: Weekday) => WEEKDAY_NAMES[d].slice(0, 3);
+  return groups
+    .map(g => `${g.from === g.to ? label(g.from) : `${label(g.from)}-${label(g.to)}`} ${g.hours.open}-${g.hours.close}`)
+    .join('; ');
+}
+
+const UPCOMING_HOLIDAY_DAYS = 60;
+
+/**
+ * The site's local time, whether it is open, hours per department and the
+ * holidays coming up. Rebuilt for every session so a reconnect picks up the
+ * current time.
+ */
+export function buildHoursInstruction(profile: HospitalProfile, now: Date = new Date()): string {
+  const status = getSiteStatus(profile, now);
+  const { clock } = status;
+  const until = addDays(clock.date, UPCOMING_HOLIDAY_DAYS);
+  const year = Number(clock.date.slice(0, 4));
+  const holidays = [year, year + 1]
+    .flatMap(y => getStatutoryHolidays(y, profile.province, profile.observesFederalHolidays))
+    .filter(h => h.date >= clock.date && h.date <= until)
+    .map(h => `  - ${WEEKDAY_NAMES[weekdayOf(h.date)]} ${h.date}: ${h.name}${h.observed ? ' (observed)' : ''}`);
+
+  const state = status.isOpen
+    ? `OPEN now. Departments open right now: ${status.openDepartments.join(', ')}.`
+    : `CLOSED now${status.holiday ? ` for ${status.holiday.name}` : ''}.`;
+  const next = !status.isOpen && status.nextOpening
+    ? `\n- Next opening: ${WEEKDAY_NAMES[weekdayOf(status.nextOpening.date)]} ${status.nextOpening.date} at ${status.nextOpening.time}.`
+    : '';
+
+  return `
+====================
+HOURS & CALENDAR
+====================
+- Current local time at the hospital: ${WEEKDAY_NAMES[clock.weekday]} ${clock.date}, ${clock.time} (${clock.timeZone}). Use this for "today", "tomorrow" and "next week".
+- The hospital is ${state}${next}
+- Opening hours by department:
+${profile.departments.map(d => `  - ${d}: ${formatWeeklyHours(getWeeklyHours(profile, d))}`).join('\n')}
+- Closed on statutory holidays. Coming up:
+${holidays.length > 0 ? holidays.join('\n') : '  - none in the next two months'}
+- Never offer a time outside these hours or on a holiday; check_availability only returns open times.
+`;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Wraps any schedule store so slots outside a department's opening hours, on
+ * statutory holidays or already past at the site are never offered or booked.
+ */
+export function withOpeningHours(store: ScheduleStore, profile: HospitalProfile, slotMinutes: number = SLOT_MINUTES): ScheduleStore {
+  const closedReason = (department: string, date: string): string | null => {
+    // Malformed dates are left for the store to reject.
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+    const holiday = getHoliday(profile, date);
+    if (holiday) return `The hospital is closed on ${date} for ${holiday.name}.`;
+    if (!getWeeklyHours(profile, department)[weekdayOf(date)]) return `${department} is closed on ${WEEKDAY_NAMES[weekdayOf(date)]}s.`;
+    return null;
+  };
+
+  const isBookable = (slot: AppointmentSlot) => {
+    const hours = getOpeningHours(profile, slot.department, slot.date);
+    if (!hours || slot.time < hours.open || toMinutes(slot.time) + slotMinutes > toMinutes(hours.close)) return false;
+    const clock = getSiteClock(profile.timeZone);
+    return slot.date > clock.date || (slot.date === clock.date && slot.time > clock.time);
+  };
+
+  const assertBookable = (slotId: string) => {
+    const slot = parseSlotId(slotId);
+    if (!slot) throw new Error(`Invalid slot id "${slotId}".`);
+    const reason = closedReason(slot.department, slot.date);
+    if (reason) throw new Error(reason);
+    if (!isBookable(slot)) throw new Error('That time is outside opening hours or has already passed.');
+  };
+
+  return {
+    async checkAvailability(department, date) {
+      const reason = closedReason(department, date);
+      if (reason) throw new Error(reason);
+      return (await store.checkAvailability(department, date)).filter(isBookable);
+    },
+    async holdSlot(slotId, holdId) {
+      assertBookable(slotId);
+      return store.holdSlot(slotId, holdId);
+    },
+    async bookAppointment(request) {
+      assertBookable(request.slotId);
+      return store.bookAppointment(request);
+    },
+    async rescheduleAppointment(appointmentId, slotId, holdId) {
+      assertBookable(slotId);
+      return store.rescheduleAppointment(appointmentId, slotId, holdId);
+    },
+    cancelAppointment: appointmentId => store.cancelAppointment(appointmentId),
+    listAppointments: () => store.listAppointments(),
+  };
+}
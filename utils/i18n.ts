@@ -0,0 +1,554 @@
+import { Language } from '../types';
+
+export type LanguageMode = Language | 'auto';
+
+export const LANGUAGES: Language[] = ['en-CA', 'fr-CA'];
+
+/** Where each call starts in auto mode, until the caller's language is detected. */
+export const DEFAULT_LANGUAGE: Language = 'en-CA';
+
+const EN = {
+  appSubtitle: 'AI Receptionist',
+  callHistory: 'Call History',
+  units: 'Units',
+  languageProfile: 'Language',
+  languageAuto: 'Auto',
+  languageProfileActive: 'Professional Canadian Receptionist profile is active. Human-like conversational pace enabled.',
+  languageAutoHint: 'The receptionist greets callers in both official languages and follows the caller.',
+  liveStatus: 'Live Status',
+  secureLineActive: 'Secure Line Active',
+  reconnecting: 'Reconnecting',
+  attempt: 'Attempt {current}/{max}',
+  systemStandby: 'System Standby',
+  aiProcessing: 'AI Processing...',
+  emptyStateBody: 'Natural voice interaction terminal. Tap the phone icon below to start a booking.',
+  patient: 'Patient',
+  receptionist: 'Receptionist',
+  booked: 'Booked',
+  at: 'at',
+  lineMuted: 'Line Muted',
+  turnTakingActive: 'Human-like turn-taking active',
+  holdingLine: 'Holding the line...',
+  tapToReconnect: 'Tap to Reconnect',
+  connectTo: 'Connect to {name}',
+  errorCallNotRestored: 'Line unstable. Call could not be restored.',
+  errorReconnecting: 'Line unstable. Reconnecting...',
+  errorUnreachable: 'Unable to reach the receptionist. Please try again.',
+  errorMic: 'System error. Check mic permissions.',
+  status_IDLE: 'Idle',
+  status_CONNECTING: 'Connecting',
+  status_CONNECTED: 'Connected',
+  status_RECONNECTING: 'Reconnecting',
+  status_ERROR: 'Error',
+  historyUnavailable: 'Call history is unavailable in this browser.',
+  searchTranscripts: 'Search transcripts...',
+  close: 'Close',
+  noCallsFound: 'No calls found',
+  turns: 'turns',
+  delete: 'Delete',
+  selectCall: 'Select a call to replay or export',
+  keepLast: 'Keep last',
+  calls: 'calls',
+  outcome_booked: 'booked',
+  outcome_completed: 'completed',
+  outcome_failed: 'failed',
+  appointmentDraft: 'Appointment Draft',
+  draftEmpty: 'Details appear here as the caller gives them.',
+  draftField_patientName: 'Patient',
+  draftField_department: 'Department',
+  draftField_date: 'Date',
+  draftField_time: 'Time',
+  draftField_phone: 'Phone',
+  draftStatus_unconfirmed: 'unconfirmed',
+  draftStatus_confirmed: 'confirmed',
+  draftStatus_changed: 'changed',
+  staffAlert: 'Staff Alert',
+  possibleEmergency: 'Possible emergency',
+  acknowledge: 'Acknowledge',
+  transferToStaff: 'Transfer to Staff',
+  awaitingStaff: 'Agent paused · staff takeover requested',
+  resumeAgent: 'Resume Agent',
+  escalations: 'Escalations',
+  transferRequested: 'Transfer to staff',
+  escalationSource_transcript: 'detected in speech',
+  escalationSource_agent: 'reported by receptionist',
+  escalationSource_operator: 'requested by operator',
+  redFlag_cardiac: 'Chest pain / cardiac',
+  redFlag_stroke: 'Stroke signs',
+  redFlag_breathing: 'Breathing difficulty',
+  redFlag_bleeding: 'Severe bleeding',
+  redFlag_overdose: 'Overdose',
+  redFlag_unresponsive: 'Unresponsive person',
+  redFlag_self_harm: 'Self-harm risk',
+  urgentScript: 'This could be a medical emergency. Please hang up and call 9-1-1 now, or go to the nearest emergency department. I am alerting our staff right away.',
+  urgentScriptSelfHarm: 'Thank you for telling me. Your safety matters. Please call or text 9-8-8, the Suicide Crisis Helpline, right now, or call 9-1-1 if you are in immediate danger. I am getting a staff member to help you.',
+  typed: 'typed',
+  typeMessage: 'Type a message...',
+  send: 'Send',
+  inputVoice: 'Voice',
+  inputText: 'Text',
+  replies: 'Replies',
+  replyAudio: 'Voice + text',
+  replyText: 'Text only',
+  textChatActive: 'Text chat active',
+  errorMicTextFallback: 'Microphone unavailable. You can type instead.',
+  live: 'live',
+  interrupted: 'interrupted',
+  export: 'Export',
+  exportFormat_text: 'Text log',
+  exportFormat_json: 'JSON',
+  exportFormat_vtt: 'WebVTT captions',
+  exportFormat_srt: 'SRT captions',
+  exportFormat_html: 'HTML report',
+  exportFormat_fhir: 'FHIR (appointments and intake)',
+  exportFormat_recording: 'Recording (stereo)',
+  exportFormat_patientStem: 'Patient track',
+  exportFormat_agentStem: 'Agent track',
+  recordingFormat: 'Recording format',
+  saveStems: 'Separate tracks',
+  recordingWebm: 'Opus/WebM',
+  recordingWav: 'WAV (lossless)',
+  consent_pending: 'Consent pending',
+  consent_granted: 'Recording consented',
+  consent_refused: 'Recording declined',
+  consent_not_required: 'Consent not asked',
+  consentGrant: 'Agreed',
+  consentRefuse: 'Declined',
+  requireConsent: 'Ask for recording consent',
+  deleteRecordingsAfter: 'Delete recordings after',
+  days: 'days',
+  reportConsent: 'Recording consent',
+  callReport: 'Call Report',
+  reportStarted: 'Started',
+  reportDuration: 'Duration',
+  reportOutcome: 'Outcome',
+  reportLanguage: 'Language',
+  noRecording: 'No recording was saved for this call.',
+  phi_name: 'NAME',
+  phi_phone: 'PHONE',
+  phi_dob: 'DATE OF BIRTH',
+  phi_healthCard: 'HEALTH CARD',
+  phi_email: 'EMAIL',
+  phi_address: 'ADDRESS',
+  phi_date: 'DATE',
+  maskPhi: 'Mask patient details',
+  exportRedacted: 'Redacted',
+  exportFull: 'Full',
+  staffPin: 'Staff PIN',
+  unlock: 'Unlock',
+  lock: 'Lock',
+  staffUnlocked: 'Staff unlocked',
+  staffPinInvalid: 'Incorrect PIN',
+  staffPinNotConfigured: 'No staff PIN is configured for this site.',
+  outcome_callback: 'callback',
+  openNow: 'Open',
+  closedNow: 'Closed',
+  afterHoursMode: 'After hours · callbacks only',
+  callbackRequested: 'Callback requested',
+  callbackRequests: 'Callback requests',
+  callbackPreferred: 'preferred time',
+  holiday_newYearsDay: 'New Year\'s Day',
+  holiday_familyDay: 'Family Day',
+  holiday_louisRielDay: 'Louis Riel Day',
+  holiday_islanderDay: 'Islander Day',
+  holiday_heritageDay: 'Heritage Day',
+  holiday_goodFriday: 'Good Friday',
+  holiday_victoriaDay: 'Victoria Day',
+  holiday_patriotsDay: 'National Patriots\' Day',
+  holiday_indigenousPeoplesDay: 'National Indigenous Peoples Day',
+  holiday_saintJeanBaptiste: 'Saint-Jean-Baptiste Day',
+  holiday_canadaDay: 'Canada Day',
+  holiday_civicHoliday: 'Civic Holiday',
+  holiday_discoveryDay: 'Discovery Day',
+  holiday_labourDay: 'Labour Day',
+  holiday_truthAndReconciliationDay: 'Truth and Reconciliation Day',
+  holiday_thanksgiving: 'Thanksgiving',
+  holiday_remembranceDay: 'Remembrance Day',
+  holiday_christmasDay: 'Christmas Day',
+  holiday_boxingDay: 'Boxing Day',
+  outcome_changed: 'changed',
+  appointmentChanges: 'Appointment changes',
+  change_rescheduled: 'Rescheduled',
+  change_cancelled: 'Cancelled',
+  changeBefore: 'Before',
+  changeAfter: 'After',
+  meterMic: 'Mic',
+  meterAgent: 'Agent',
+  clipping: 'Clipping',
+  stillTherePrompt: 'Are you still there?',
+  callEndsIn: 'Call ends in {time}',
+  autoHangup_silence: 'Ending: no response',
+  autoHangup_max_duration: 'Ending: time limit',
+  askStillThereAfter: 'Ask if still there after',
+  endSilentCallAfter: 'End silent call after',
+  seconds: 's',
+  maxCallLength: 'Max call length',
+  minutes: 'min',
+  warnBeforeEnd: 'Warn before end',
+  stillTherePromptPlaceholder: 'Still-there prompt (default if empty)',
+  silence: 'silence',
+  reportSilence: 'Silence',
+  reportAutoHangup: 'Ended by the system',
+  reportPreset: 'Receptionist preset',
+  mute: 'Mute',
+  unmute: 'Unmute',
+  micMuted: 'Mic muted',
+  micOff: 'Off',
+  pushToTalk: 'Push to talk',
+  pushToTalkShort: 'PTT',
+  pushToTalkHint: 'Hold Space or press here to talk',
+  talking: 'Talking…',
+  hold: 'Put on hold',
+  resumeFromHold: 'Take off hold',
+  onHold: 'Caller on hold',
+  callMetrics: 'Call Metrics',
+  period_day: 'Day',
+  period_week: 'Week of',
+  metricCalls: 'Calls',
+  metricMedianLatency: 'Median latency',
+  metricP95Latency: 'p95 latency',
+  metricBookingRate: 'Booked',
+  metricInterruptions: 'Interruptions / call',
+  metricPatientTalk: 'Patient talk',
+  metricReconnects: 'Reconnects',
+  metricErrors: 'Errors',
+  noMetrics: 'No calls with metrics yet',
+  exportSummaryCsv: 'Export summary CSV',
+  exportCallsCsv: 'Export per-call CSV',
+  metricsHint: 'Latency: end of caller speech to start of reply audio',
+  operatorSettings: 'Settings',
+  settingsLocked: 'Enter the staff PIN to change the receptionist',
+  presetActive: 'In use',
+  newPreset: 'New',
+  newPresetName: 'New preset',
+  importPresets: 'Import',
+  exportPresets: 'Export',
+  presetName: 'Preset name',
+  model: 'Model',
+  voice: 'Voice',
+  voiceDefault: 'Language default',
+  persona: 'Persona',
+  personaHint: '{hospital} is replaced with the site name',
+  turnTaking: 'Pace and turn-taking',
+  vad: 'Voice activity detection',
+  vadStart: 'Start of speech',
+  vadEnd: 'End of speech',
+  vadPrefixPadding: 'Prefix padding (ms)',
+  vadSilenceDuration: 'Silence to end turn (ms)',
+  sensitivity_default: 'API default',
+  sensitivity_high: 'High',
+  sensitivity_low: 'Low',
+  savePreset: 'Save',
+  usePreset: 'Use for calls',
+  previewInstruction: 'Preview instruction',
+  hidePreview: 'Hide preview',
+  presetAppliesNextCall: 'Changes apply from the next call.',
+  presetSaved: 'Saved "{name}" as version {version}.',
+  presetsImported: 'Imported {count} preset(s).',
+  presetImportFailed: 'Nothing was imported:',
+  intake: 'Intake',
+  intakeComplete: 'Complete',
+  intakeIncomplete: 'In progress',
+  yes: 'Yes',
+  no: 'No',
+  staffPinLocked: 'Too many wrong PINs. Try again at {time}.',
+  bookedAppointments: 'Appointments booked',
+};
+
+export type MessageKey = keyof typeof EN;
+export type Strings = Record<MessageKey, string>;
+
+const FR: Strings = {
+  appSubtitle: 'Réceptionniste IA',
+  callHistory: 'Historique des appels',
+  units: 'Services',
+  languageProfile: 'Langue',
+  languageAuto: 'Auto',
+  languageProfileActive: 'Le profil de réceptionniste canadienne professionnelle est actif. Rythme de conversation naturel activé.',
+  languageAutoHint: 'La réceptionniste accueille les appelants dans les deux langues officielles et suit leur choix.',
+  liveStatus: 'État en direct',
+  secureLineActive: 'Ligne sécurisée active',
+  reconnecting: 'Reconnexion',
+  attempt: 'Tentative {current}/{max}',
+  systemStandby: 'Système en attente',
+  aiProcessing: 'Traitement IA...',
+  emptyStateBody: 'Terminal vocal interactif. Touchez l’icône du téléphone ci-dessous pour prendre un rendez-vous.',
+  patient: 'Patient',
+  receptionist: 'Réceptionniste',
+  booked: 'Réservé',
+  at: 'à',
+  lineMuted: 'Micro coupé',
+  turnTakingActive: 'Tours de parole naturels actifs',
+  holdingLine: 'Veuillez patienter...',
+  tapToReconnect: 'Touchez pour reconnecter',
+  connectTo: 'Joindre {name}',
+  errorCallNotRestored: 'Ligne instable. L’appel n’a pas pu être rétabli.',
+  errorReconnecting: 'Ligne instable. Reconnexion...',
+  errorUnreachable: 'Impossible de joindre la réceptionniste. Veuillez réessayer.',
+  errorMic: 'Erreur système. Vérifiez les autorisations du micro.',
+  status_IDLE: 'Inactif',
+  status_CONNECTING: 'Connexion',
+  status_CONNECTED: 'Connecté',
+  status_RECONNECTING: 'Reconnexion',
+  status_ERROR: 'Erreur',
+  historyUnavailable: 'L’historique des appels n’est pas disponible dans ce navigateur.',
+  searchTranscripts: 'Rechercher dans les transcriptions...',
+  close: 'Fermer',
+  noCallsFound: 'Aucun appel trouvé',
+  turns: 'tours',
+  delete: 'Supprimer',
+  selectCall: 'Sélectionnez un appel à réécouter ou exporter',
+  keepLast: 'Conserver les',
+  calls: 'derniers appels',
+  outcome_booked: 'réservé',
+  outcome_completed: 'terminé',
+  outcome_failed: 'échoué',
+  appointmentDraft: 'Brouillon de rendez-vous',
+  draftEmpty: 'Les détails s’affichent ici à mesure que l’appelant les donne.',
+  draftField_patientName: 'Patient',
+  draftField_department: 'Service',
+  draftField_date: 'Date',
+  draftField_time: 'Heure',
+  draftField_phone: 'Téléphone',
+  draftStatus_unconfirmed: 'non confirmé',
+  draftStatus_confirmed: 'confirmé',
+  draftStatus_changed: 'modifié',
+  staffAlert: 'Alerte au personnel',
+  possibleEmergency: 'Urgence possible',
+  acknowledge: 'Accuser réception',
+  transferToStaff: 'Transférer au personnel',
+  awaitingStaff: 'Agent en pause · prise en charge demandée',
+  resumeAgent: 'Reprendre l’agent',
+  escalations: 'Escalades',
+  transferRequested: 'Transfert au personnel',
+  escalationSource_transcript: 'détecté dans la parole',
+  escalationSource_agent: 'signalé par la réceptionniste',
+  escalationSource_operator: 'demandé par l’opérateur',
+  redFlag_cardiac: 'Douleur thoracique / cardiaque',
+  redFlag_stroke: 'Signes d’AVC',
+  redFlag_breathing: 'Difficulté respiratoire',
+  redFlag_bleeding: 'Saignement grave',
+  redFlag_overdose: 'Surdose',
+  redFlag_unresponsive: 'Personne inconsciente',
+  redFlag_self_harm: 'Risque d’automutilation',
+  urgentScript: 'Il pourrait s’agir d’une urgence médicale. Raccrochez et composez le 9-1-1 maintenant, ou rendez-vous à l’urgence la plus proche. J’alerte notre personnel immédiatement.',
+  urgentScriptSelfHarm: 'Merci de me l’avoir dit. Votre sécurité compte. Appelez ou textez le 9-8-8, la Ligne d’aide en cas de crise de suicide, dès maintenant, ou composez le 9-1-1 si vous êtes en danger immédiat. Je fais venir un membre du personnel pour vous aider.',
+  typed: 'écrit',
+  typeMessage: 'Écrivez un message...',
+  send: 'Envoyer',
+  inputVoice: 'Voix',
+  inputText: 'Texte',
+  replies: 'Réponses',
+  replyAudio: 'Voix + texte',
+  replyText: 'Texte seulement',
+  textChatActive: 'Clavardage actif',
+  errorMicTextFallback: 'Micro non disponible. Vous pouvez écrire à la place.',
+  live: 'en direct',
+  interrupted: 'interrompu',
+  export: 'Exporter',
+  exportFormat_text: 'Journal texte',
+  exportFormat_json: 'JSON',
+  exportFormat_vtt: 'Sous-titres WebVTT',
+  exportFormat_srt: 'Sous-titres SRT',
+  exportFormat_html: 'Rapport HTML',
+  exportFormat_fhir: 'FHIR (rendez-vous et accueil)',
+  exportFormat_recording: 'Enregistrement stéréo',
+  exportFormat_patientStem: 'Piste du patient',
+  exportFormat_agentStem: 'Piste de l’agent',
+  recordingFormat: 'Format d’enregistrement',
+  saveStems: 'Pistes séparées',
+  recordingWebm: 'Opus/WebM',
+  recordingWav: 'WAV (sans perte)',
+  consent_pending: 'Consentement en attente',
+  consent_granted: 'Enregistrement autorisé',
+  consent_refused: 'Enregistrement refusé',
+  consent_not_required: 'Consentement non demandé',
+  consentGrant: 'Accepté',
+  consentRefuse: 'Refusé',
+  requireConsent: 'Demander le consentement à l’enregistrement',
+  deleteRecordingsAfter: 'Supprimer les enregistrements après',
+  days: 'jours',
+  reportConsent: 'Consentement à l’enregistrement',
+  callReport: 'Rapport d’appel',
+  reportStarted: 'Début',
+  reportDuration: 'Durée',
+  reportOutcome: 'Résultat',
+  reportLanguage: 'Langue',
+  noRecording: 'Aucun enregistrement n’a été conservé pour cet appel.',
+  phi_name: 'NOM',
+  phi_phone: 'TÉLÉPHONE',
+  phi_dob: 'DATE DE NAISSANCE',
+  phi_healthCard: 'CARTE SANTÉ',
+  phi_email: 'COURRIEL',
+  phi_address: 'ADRESSE',
+  phi_date: 'DATE',
+  maskPhi: 'Masquer les renseignements du patient',
+  exportRedacted: 'Caviardé',
+  exportFull: 'Complet',
+  staffPin: 'NIP du personnel',
+  unlock: 'Déverrouiller',
+  lock: 'Verrouiller',
+  staffUnlocked: 'Personnel déverrouillé',
+  staffPinInvalid: 'NIP incorrect',
+  staffPinNotConfigured: 'Aucun NIP du personnel n’est configuré pour ce site.',
+  outcome_callback: 'rappel',
+  openNow: 'Ouvert',
+  closedNow: 'Fermé',
+  afterHoursMode: 'Hors des heures · rappels seulement',
+  callbackRequested: 'Rappel demandé',
+  callbackRequests: 'Demandes de rappel',
+  callbackPreferred: 'moment préféré',
+  holiday_newYearsDay: 'Jour de l’An',
+  holiday_familyDay: 'Jour de la Famille',
+  holiday_louisRielDay: 'Journée Louis-Riel',
+  holiday_islanderDay: 'Fête des Insulaires',
+  holiday_heritageDay: 'Jour du patrimoine',
+  holiday_goodFriday: 'Vendredi saint',
+  holiday_victoriaDay: 'Fête de la Reine',
+  holiday_patriotsDay: 'Journée nationale des patriotes',
+  holiday_indigenousPeoplesDay: 'Journée nationale des peuples autochtones',
+  holiday_saintJeanBaptiste: 'Fête nationale du Québec',
+  holiday_canadaDay: 'Fête du Canada',
+  holiday_civicHoliday: 'Congé civique',
+  holiday_discoveryDay: 'Jour de la Découverte',
+  holiday_labourDay: 'Fête du Travail',
+  holiday_truthAndReconciliationDay: 'Journée de la vérité et de la réconciliation',
+  holiday_thanksgiving: 'Action de grâce',
+  holiday_remembranceDay: 'Jour du Souvenir',
+  holiday_christmasDay: 'Noël',
+  holiday_boxingDay: 'Lendemain de Noël',
+  outcome_changed: 'modifié',
+  appointmentChanges: 'Modifications de rendez-vous',
+  change_rescheduled: 'Déplacé',
+  change_cancelled: 'Annulé',
+  changeBefore: 'Avant',
+  changeAfter: 'Après',
+  meterMic: 'Micro',
+  meterAgent: 'Agent',
+  clipping: 'Saturation',
+  stillTherePrompt: 'Êtes-vous toujours là?',
+  callEndsIn: 'Fin de l\'appel dans {time}',
+  autoHangup_silence: 'Fin : aucune réponse',
+  autoHangup_max_duration: 'Fin : durée maximale',
+  askStillThereAfter: 'Demander « toujours là? » après',
+  endSilentCallAfter: 'Terminer un appel silencieux après',
+  seconds: 's',
+  maxCallLength: 'Durée max. d\'appel',
+  minutes: 'min',
+  warnBeforeEnd: 'Avertir avant la fin',
+  stillTherePromptPlaceholder: 'Question « toujours là? » (par défaut si vide)',
+  silence: 'silence',
+  reportSilence: 'Silence',
+  reportAutoHangup: 'Terminé par le système',
+  reportPreset: 'Préréglage de la réceptionniste',
+  mute: 'Couper le micro',
+  unmute: 'Réactiver le micro',
+  micMuted: 'Micro coupé',
+  micOff: 'Coupé',
+  pushToTalk: 'Appuyer pour parler',
+  pushToTalkShort: 'Parler',
+  pushToTalkHint: 'Maintenez Espace ou appuyez ici pour parler',
+  talking: 'En train de parler…',
+  hold: 'Mettre en attente',
+  resumeFromHold: 'Reprendre l\'appel',
+  onHold: 'Appelant en attente',
+  callMetrics: 'Indicateurs d\'appel',
+  period_day: 'Jour',
+  period_week: 'Semaine du',
+  metricCalls: 'Appels',
+  metricMedianLatency: 'Latence médiane',
+  metricP95Latency: 'Latence p95',
+  metricBookingRate: 'Réservés',
+  metricInterruptions: 'Interruptions / appel',
+  metricPatientTalk: 'Parole du patient',
+  metricReconnects: 'Reconnexions',
+  metricErrors: 'Erreurs',
+  noMetrics: 'Aucun appel avec indicateurs pour l\'instant',
+  exportSummaryCsv: 'Exporter le résumé CSV',
+  exportCallsCsv: 'Exporter les appels CSV',
+  metricsHint: 'Latence : fin de la parole de l\'appelant au début de la réponse audio',
+  operatorSettings: 'Paramètres',
+  settingsLocked: 'Entrez le NIP du personnel pour modifier la réceptionniste',
+  presetActive: 'En service',
+  newPreset: 'Nouveau',
+  newPresetName: 'Nouveau préréglage',
+  importPresets: 'Importer',
+  exportPresets: 'Exporter',
+  presetName: 'Nom du préréglage',
+  model: 'Modèle',
+  voice: 'Voix',
+  voiceDefault: 'Selon la langue',
+  persona: 'Personnage',
+  personaHint: '{hospital} est remplacé par le nom du site',
+  turnTaking: 'Rythme et tours de parole',
+  vad: 'Détection de la voix',
+  vadStart: 'Début de la parole',
+  vadEnd: 'Fin de la parole',
+  vadPrefixPadding: 'Marge initiale (ms)',
+  vadSilenceDuration: 'Silence de fin de tour (ms)',
+  sensitivity_default: 'Par défaut de l\'API',
+  sensitivity_high: 'Élevée',
+  sensitivity_low: 'Faible',
+  savePreset: 'Enregistrer',
+  usePreset: 'Utiliser pour les appels',
+  previewInstruction: 'Aperçu des instructions',
+  hidePreview: 'Masquer l\'aperçu',
+  presetAppliesNextCall: 'Les changements s\'appliquent à partir du prochain appel.',
+  presetSaved: '« {name} » enregistré, version {version}.',
+  presetsImported: '{count} préréglage(s) importé(s).',
+  presetImportFailed: 'Rien n\'a été importé :',
+  intake: 'Questionnaire d\'accueil',
+  intakeComplete: 'Complet',
+  intakeIncomplete: 'En cours',
+  yes: 'Oui',
+  no: 'Non',
+  staffPinLocked: 'Trop de NIP incorrects. Réessayez à {time}.',
+  bookedAppointments: 'Rendez-vous réservés',
+};
+
+const STRINGS: Record<Language, Strings> = { 'en-CA': EN, 'fr-CA': FR };
+
+export function getStrings(language: Language): Strings {
+  return STRINGS[language];
+}
+
+export function format(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+const LANGUAGE_KEY = 'canada-care.languageMode';
+
+export function getStoredLanguageMode(): LanguageMode {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return stored === 'en-CA' || stored === 'fr-CA' || stored === 'auto' ? stored : 'en-CA';
+}
+
+export function setStoredLanguageMode(mode: LanguageMode) {
+  localStorage.setItem(LANGUAGE_KEY, mode);
+}
+
+const FRENCH_WORDS = new Set([
+  'bonjour', 'allo', 'oui', 'non', 'merci', 'je', 'j', 'voudrais', 'veux', 'un', 'une', 'le', 'la', 'les', 'des',
+  'rendez-vous', 'rendez', 'vous', 'pour', 'mon', 'ma', 'est', 'suis', 'avec', 'prendre', 'français', 'svp', 'plaît',
+]);
+const ENGLISH_WORDS = new Set([
+  'hello', 'hi', 'yes', 'no', 'thanks', 'thank', 'i', 'would', 'like', 'want', 'a', 'an', 'the', 'appointment',
+  'book', 'for', 'my', 'is', 'am', 'with', 'to', 'please', 'english',
+]);
+
+/**
+ * Guesses the caller's language from a transcript turn by counting common
+ * function words. Returns null when the turn is too short to tell.
+ */
+export function detectLanguage(text: string): Language | null {
+  const words = text.toLowerCase().normalize('NFC').split(/[^a-zà-ÿ'-]+/).flatMap(w => w.split("'")).filter(Boolean);
+  let fr = 0;
+  let en = 0;
+  for (const word of words) {
+    if (FRENCH_WORDS.has(word)) fr++;
+    if (ENGLISH_WORDS.has(word)) en++;
+  }
+  if (/[éèêàçùûôî]/.test(text)) fr++;
+  if (fr === en) return null;
+  return fr > en ? 'fr-CA' : 'en-CA';
+}
@@ -0,0 +1,72 @@
+import { FunctionCall } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { HospitalProfile, IntakeResponse } from '../types';
+import { handleIntakeCall, intakeBookingError, parseIntakeValue } from './intakeForms';
+
+const profile = {
+  intakeForms: {
+    Pediatrics: {
+      id: 'pediatrics-intake',
+      title: 'Pediatrics intake',
+      fields: [
+        { id: 'guardian_present', label: 'Is a guardian calling?', type: 'boolean', required: true },
+        { id: 'guardian_name', label: 'Guardian name', type: 'text', required: true, askIf: { field: 'guardian_present', equals: true } },
+        { id: 'age', label: 'Child age', type: 'integer', required: true, min: 0, max: 17 },
+      ],
+    },
+  },
+} as unknown as HospitalProfile;
+
+const record = (intakes: IntakeResponse[], answers: { field: string; value: string }[]) => {
+  let saved: IntakeResponse | null = null;
+  const call: FunctionCall = { id: 'c1', name: 'record_intake', args: { department: 'pediatrics', answers } };
+  const response = handleIntakeCall(profile, call, intakes, intake => { saved = intake; });
+  return { response: response.response, saved: saved! };
+};
+
+describe('handleIntakeCall', () => {
+  it('accepts a conditional answer sent before the answer it depends on', () => {
+    const { response, saved } = record([], [
+      { field: 'guardian_name', value: 'Alex Lee' },
+      { field: 'guardian_present', value: 'yes' },
+      { field: 'age', value: '7' },
+    ]);
+
+    expect(response).toEqual({ output: { status: 'complete' } });
+    expect(saved.answers).toEqual({ guardian_present: true, guardian_name: 'Alex Lee', age: 7 });
+  });
+
+  it('checks conditions against the answers merged with earlier calls', () => {
+    const first = record([], [{ field: 'guardian_present', value: 'yes' }]).saved;
+    const { response, saved } = record([first], [{ field: 'guardian_name', value: 'Alex Lee' }]);
+
+    expect(saved.answers).toEqual({ guardian_present: true, guardian_name: 'Alex Lee' });
+    expect(response).toEqual({ output: { status: 'incomplete', still_needed: ['age'] } });
+  });
+
+  it('drops answers that stop applying when an earlier answer changes', () => {
+    const first = record([], [{ field: 'guardian_present', value: 'yes' }, { field: 'guardian_name', value: 'Alex Lee' }, { field: 'age', value: '7' }]).saved;
+    const { response, saved } = record([first], [{ field: 'guardian_present', value: 'no' }]);
+
+    expect(saved.answers).toEqual({ guardian_present: false, age: 7 });
+    expect(response).toEqual({ output: { status: 'complete' } });
+  });
+});
+
+describe('intakeBookingError', () => {
+  it('blocks booking until the required questions that apply are answered', () => {
+    const partial = record([], [{ field: 'guardian_present', value: 'yes' }, { field: 'age', value: '7' }]).saved;
+    const done = record([partial], [{ field: 'guardian_name', value: 'Alex Lee' }]).saved;
+
+    expect(intakeBookingError(profile, [partial], 'Pediatrics')).toContain('Still needed: guardian_name.');
+    expect(intakeBookingError(profile, [done], 'Pediatrics')).toBeNull();
+    expect(intakeBookingError(profile, [], 'General')).toBeNull();
+  });
+});
+
+describe('parseIntakeValue', () => {
+  it('rejects out-of-range numbers and impossible dates', () => {
+    expect(parseIntakeValue({ id: 'age', label: 'Age', type: 'integer', min: 0, max: 17 }, '18')).toEqual({ error: 'age: must be between 0 and 17.' });
+    expect(parseIntakeValue({ id: 'seen', label: 'Seen', type: 'date' }, '2026-02-30')).toEqual({ error: 'seen: expected a date as YYYY-MM-DD.' });
+  });
+});
@@ -0,0 +1,207 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { HospitalProfile, IntakeField, IntakeForm, IntakeResponse, IntakeValue } from '../types';
+
+export const INTAKE_FUNCTION_DECLARATION: FunctionDeclaration = {
+  name: 'record_intake',
+  description: 'Save answers to a department\'s intake questions. Can be called with one answer or several, as the caller gives them.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      department: { type: Type.STRING, description: 'Department the intake form belongs to.' },
+      answers: {
+        type: Type.ARRAY,
+        description: 'Answers to save.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            field: { type: Type.STRING, description: 'Question id from the intake form, e.g. "guardian_name".' },
+            value: { type: Type.STRING, description: 'The answer as text: digits for numbers, "yes" or "no", YYYY-MM-DD for dates, choices exactly as listed.' },
+          },
+          required: ['field', 'value'],
+        },
+      },
+    },
+    required: ['department', 'answers'],
+  },
+};
+
+const YES = ['yes', 'y', 'true', 'oui'];
+const NO = ['no', 'n', 'false', 'non'];
+
+const describeValue = (value: IntakeValue) => (typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value));
+
+function describeType(field: IntakeField): string {
+  switch (field.type) {
+    case 'integer':
+      return field.min !== undefined && field.max !== undefined
+        ? `whole number ${field.min}-${field.max}`
+        : 'whole number';
+    case 'boolean':
+      return 'yes/no';
+    case 'date':
+      return 'date, YYYY-MM-DD';
+    case 'choice':
+      return `one of: ${(field.options ?? []).join(', ')}`;
+    default:
+      return 'text';
+  }
+}
+
+/** The form for a department, matched the way callers say it. */
+export function getIntakeForm(profile: HospitalProfile, department: string): { department: string; form: IntakeForm } | null {
+  const key = Object.keys(profile.intakeForms ?? {}).find(d => d.toLowerCase() === department.trim().toLowerCase());
+  return key ? { department: key, form: profile.intakeForms![key] } : null;
+}
+
+/** Whether a question applies given the answers so far. */
+export function isFieldAsked(field: IntakeField, answers: Record<string, IntakeValue>): boolean {
+  return !field.askIf || answers[field.askIf.field] === field.askIf.equals;
+}
+
+/** Required questions that apply and have no answer yet, in form order. */
+export function missingIntakeFields(form: IntakeForm, answers: Record<string, IntakeValue>): string[] {
+  return form.fields.filter(f => f.required && isFieldAsked(f, answers) && answers[f.id] === undefined).map(f => f.id);
+}
+
+/** Turns the agent's text answer into a typed value, or explains what is wrong with it. */
+export function parseIntakeValue(field: IntakeField, raw: string): { value: IntakeValue } | { error: string } {
+  const text = raw.trim();
+  if (!text) return { error: `${field.id}: the answer is empty.` };
+  switch (field.type) {
+    case 'integer': {
+      const value = Number(text);
+      if (!/^-?\d+$/.test(text)) return { error: `${field.id}: expected a whole number.` };
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        return { error: `${field.id}: must be between ${field.min ?? '-∞'} and ${field.max ?? '∞'}.` };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (YES.includes(lower)) return { value: true };
+      if (NO.includes(lower)) return { value: false };
+      return { error: `${field.id}: expected "yes" or "no".` };
+    }
+    case 'date': {
+      const date = new Date(`${text}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== text) {
+        return { error: `${field.id}: expected a date as YYYY-MM-DD.` };
+      }
+      return { value: text };
+    }
+    case 'choice': {
+      const option = (field.options ?? []).find(o => o.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { error: `${field.id}: must be one of ${(field.options ?? []).join(', ')}.` };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/** Drops answers to questions that no longer apply, e.g. after a yes became a no. */
+function pruneAnswers(form: IntakeForm, answers: Record<string, IntakeValue>): Record<string, IntakeValue> {
+  const kept: Record<string, IntakeValue> = {};
+  for (const field of form.fields) {
+    if (answers[field.id] !== undefined && isFieldAsked(field, kept)) kept[field.id] = answers[field.id];
+  }
+  return kept;
+}
+
+export function buildIntakeInstruction(profile: HospitalProfile): string {
+  const forms = Object.entries(profile.intakeForms ?? {});
+  if (forms.length === 0) return '';
+
+  const describeForm = ([department, form]: [string, IntakeForm]) => {
+    const fields = form.fields.map(f => {
+      const condition = f.askIf ? `; only if ${f.askIf.field} is ${describeValue(f.askIf.equals)}` : '';
+      return `- ${f.id} (${describeType(f)}${f.required ? '; required' : ''}${condition}): ${f.label}`;
+    });
+    return `${department} — ${form.title}:\n${fields.join('\n')}`;
+  };
+
+  return `
+====================
+INTAKE QUESTIONS (MANDATORY)
+====================
+- These departments need extra details. Once the caller has chosen one of them, ask its questions one at a time, in order, before booking.
+- Save answers with record_intake as you get them. Skip a question marked "only if" unless the condition holds.
+- If record_intake returns an error, re-ask the questions it names. Only book once it returns "complete".
+
+${forms.map(describeForm).join('\n\n')}
+`;
+}
+
+/**
+ * Saves the answers it can and returns the rest as an error the agent can
+ * act on, together with the questions still needed.
+ */
+export function handleIntakeCall(
+  profile: HospitalProfile,
+  call: FunctionCall,
+  intakes: IntakeResponse[],
+  onChange: (intake: IntakeResponse) => void,
+): FunctionResponse {
+  const args = call.args ?? {};
+  const respond = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+  const match = getIntakeForm(profile, typeof args.department === 'string' ? args.department : '');
+  if (!match) return respond({ error: `There is no intake form for "${args.department}". Only the departments listed under INTAKE QUESTIONS have one.` });
+  if (!Array.isArray(args.answers) || args.answers.length === 0) return respond({ error: 'Send at least one answer.' });
+
+  const { department, form } = match;
+  const existing = intakes.find(i => i.department === department);
+  const given: Record<string, IntakeValue> = {};
+  const errors: string[] = [];
+
+  for (const item of args.answers as unknown[]) {
+    const { field: id, value } = (item ?? {}) as Record<string, unknown>;
+    const field = form.fields.find(f => f.id === id);
+    if (!field) {
+      errors.push(`"${id}" is not a question on this form.`);
+      continue;
+    }
+    const parsed = parseIntakeValue(field, typeof value === 'string' ? value : String(value ?? ''));
+    if ('error' in parsed) errors.push(parsed.error);
+    else given[field.id] = parsed.value;
+  }
+
+  // Conditions are checked against every answer in the call, so their order does not matter.
+  const answers = pruneAnswers(form, { ...(existing?.answers ?? {}), ...given });
+  for (const field of form.fields) {
+    if (given[field.id] !== undefined && answers[field.id] === undefined) {
+      errors.push(`${field.id}: only asked if ${field.askIf!.field} is ${describeValue(field.askIf!.equals)}.`);
+    }
+  }
+  const missing = missingIntakeFields(form, answers);
+  const intake: IntakeResponse = { department, form, answers, complete: missing.length === 0, updatedAt: new Date() };
+  onChange(intake);
+
+  if (errors.length > 0) {
+    return respond({
+      error: `Re-ask these questions: ${errors.join(' ')} Other answers were saved.${missing.length > 0 ? ` Still needed: ${missing.join(', ')}.` : ''}`,
+    });
+  }
+  return respond({ output: intake.complete ? { status: 'complete' } : { status: 'incomplete', still_needed: missing } });
+}
+
+/** Why a slot in this department cannot be booked yet, or null once its required questions are answered. */
+export function intakeBookingError(profile: HospitalProfile, intakes: IntakeResponse[], department: string): string | null {
+  const match = getIntakeForm(profile, department);
+  if (!match) return null;
+  const answers = intakes.find(i => i.department === match.department)?.answers ?? {};
+  const missing = missingIntakeFields(match.form, answers);
+  return missing.length > 0
+    ? `Finish the ${match.department} intake questions with record_intake before booking. Still needed: ${missing.join(', ')}.`
+    : null;
+}
+
+/** Replaces the intake for the same department, or adds it. */
+export function upsertIntake(intakes: IntakeResponse[], intake: IntakeResponse): IntakeResponse[] {
+  return intakes.some(i => i.department === intake.department)
+    ? intakes.map(i => (i.department === intake.department ? intake : i))
+    : [...intakes, intake];
+}
+
+export function formatIntakeValue(value: IntakeValue, yes: string, no: string): string {
+  return typeof value === 'boolean' ? (value ? yes : no) : String(value);
+}
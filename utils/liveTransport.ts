@@ -0,0 +1,69 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+/** Models the settings console offers. Keep in sync with the token broker's allow list. */
+export const LIVE_MODELS = [LIVE_MODEL, 'gemini-live-2.5-flash-preview', 'gemini-2.0-flash-live-001'];
+
+/** The subset of the SDK `Session` the receptionist relies on. */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/** Opens Live sessions; swapped out for the scripted stand-in offline. */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+/** Connects with a raw API key. Only for local development builds. */
+export function createGenAiTransport(apiKey: string): LiveTransport {
+  return {
+    connect: (params) => new GoogleGenAI({ apiKey }).live.connect(params),
+  };
+}
+
+const CLIENT_ID_KEY = 'canada-care.clientId';
+
+function getClientId(): string {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+/**
+ * Fetches a single-use ephemeral token from the token broker before every
+ * connect, so the real API key never ships to the browser. The token is
+ * locked to this connect's system instruction and tools.
+ */
+export function createTokenTransport(tokenUrl: string): LiveTransport {
+  return {
+    connect: async (params) => {
+      const response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId() },
+        body: JSON.stringify({
+          model: params.model,
+          config: { systemInstruction: params.config?.systemInstruction, tools: params.config?.tools },
+        }),
+      });
+      if (!response.ok) throw new Error(`Token broker returned HTTP ${response.status}.`);
+      const { token } = await response.json() as { token?: string };
+      if (!token) throw new Error('Token broker returned no token.');
+
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return ai.live.connect(params);
+    },
+  };
+}
@@ -0,0 +1,235 @@
+import { LiveServerMessage } from '@google/genai';
+import { TranscriptionEntry } from '../types';
+import { decode, decodeAudioData } from './audio';
+import { AGENT_SAMPLE_RATE } from './callRecorder';
+import { cutCaption } from './captions';
+
+export type CaptionSide = 'user' | 'agent';
+
+/** In-progress text for each side, not yet in the transcript. */
+export type Captions = Record<CaptionSide, string>;
+
+export interface LiveTurnsOptions {
+  /** Converts a wall-clock time to ms from call start. */
+  offsetMs: (at?: number) => number;
+  /** The output audio context, once the call has one. */
+  getContext: () => AudioContext | null;
+  /** Whether the caller can hear the agent; speech dropped on hold or during a transfer is not captioned either. */
+  canHearAgent: () => boolean;
+  /** Whether agent audio is played rather than only captioned. */
+  playsAudio: () => boolean;
+  onCaptions: (captions: Captions) => void;
+  onTranscript: (transcript: TranscriptionEntry[]) => void;
+  /** A chunk of agent audio was scheduled at `startTime` on the output clock; connect it to meters and the recording here. */
+  onAgentAudio?: (source: AudioBufferSourceNode, pcm: Int16Array, startTime: number) => void;
+  /** The first audio of an agent turn is scheduled to start at `startMs` from call start. */
+  onAgentReply?: (startMs: number) => void;
+  /** Playback was cut off at `time` on the output clock. */
+  onPlaybackStopped?: (time: number) => void;
+  /** The caller's turn so far, after each transcription chunk. */
+  onCallerSpeech?: (turnSoFar: string) => void;
+  onAgentSpeech?: () => void;
+  onInterrupted?: () => void;
+  /** The model finished its turn; the caller's caption for it, if any, is now in the transcript. */
+  onTurnComplete?: (userEntry: TranscriptionEntry | null) => void;
+}
+
+export interface LiveTurns {
+  readonly transcript: TranscriptionEntry[];
+  /** The caption still being built for one side. */
+  caption(side: CaptionSide): string;
+  /** Handles the audio, transcription, interruption and turn signals of a server message. */
+  receive(message: LiveServerMessage): Promise<void>;
+  appendCaption(side: CaptionSide, text: string): void;
+  /** Moves one side's in-progress caption into the transcript. */
+  flushCaption(side: CaptionSide, options?: { endMs?: number; interrupted?: boolean }): TranscriptionEntry | null;
+  commitEntry(entry: TranscriptionEntry): void;
+  /** Cuts the agent's current turn back to what the caller heard and stops its audio. */
+  interrupt(): void;
+  stopPlayback(): void;
+  isPlaying(): boolean;
+  /** How long the scheduled agent audio has left to play. */
+  playoutMs(): number;
+}
+
+interface AgentTurn {
+  /** When the turn's audio was scheduled to start, in output-context seconds. */
+  start: number | null;
+  duration: number;
+  complete: boolean;
+  /** The entry the turn was committed as, so a late interruption can still trim it. */
+  entry: TranscriptionEntry | null;
+}
+
+const newAgentTurn = (): AgentTurn => ({ start: null, duration: 0, complete: false, entry: null });
+
+/**
+ * Turns one call's stream of server messages into played audio, live
+ * captions and transcript entries timed against the call.
+ */
+export function createLiveTurns(options: LiveTurnsOptions): LiveTurns {
+  const { offsetMs, getContext } = options;
+  let transcript: TranscriptionEntry[] = [];
+  const captions: Captions = { user: '', agent: '' };
+  // When each side's in-progress caption started and last grew, in ms from call start.
+  const timing: Record<CaptionSide, { startMs: number; endMs: number } | null> = { user: null, agent: null };
+  let agentTurn = newAgentTurn();
+  let nextStartTime = 0;
+  const activeSources = new Set<AudioBufferSourceNode>();
+
+  /** Converts a time on the output audio clock to an offset from call start. */
+  const playbackOffsetMs = (ctx: AudioContext, time: number) => offsetMs(Date.now() + (time - ctx.currentTime) * 1000);
+
+  const setTranscript = (entries: TranscriptionEntry[]) => {
+    transcript = entries;
+    options.onTranscript(transcript);
+  };
+
+  const syncCaptions = () => options.onCaptions({ ...captions });
+
+  const commitEntry = (entry: TranscriptionEntry) => setTranscript([...transcript, entry]);
+
+  const appendCaption = (side: CaptionSide, text: string) => {
+    captions[side] += text;
+    const now = offsetMs();
+    timing[side] = { startMs: timing[side]?.startMs ?? now, endMs: now };
+    syncCaptions();
+  };
+
+  const flushCaption = (side: CaptionSide, flush: { endMs?: number; interrupted?: boolean } = {}): TranscriptionEntry | null => {
+    const text = captions[side].trim();
+    const started = timing[side];
+    captions[side] = '';
+    timing[side] = null;
+    syncCaptions();
+    if (!text) return null;
+
+    const endMs = flush.endMs ?? started?.endMs ?? offsetMs();
+    const entry: TranscriptionEntry = {
+      type: side,
+      text,
+      timestamp: new Date(),
+      startMs: Math.min(started?.startMs ?? endMs, endMs),
+      endMs,
+      ...(flush.interrupted ? { interrupted: true } : {}),
+    };
+    commitEntry(entry);
+    return entry;
+  };
+
+  const stopPlayback = () => {
+    activeSources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    activeSources.clear();
+    nextStartTime = 0;
+    const ctx = getContext();
+    if (ctx) options.onPlaybackStopped?.(ctx.currentTime);
+  };
+
+  /**
+   * Cuts the agent's current turn back to what the caller actually heard.
+   * The turn may still be streaming, or already committed while its audio
+   * plays out.
+   */
+  const trimAgentCaption = () => {
+    const ctx = getContext();
+    const playedFraction = ctx && agentTurn.start !== null && agentTurn.duration > 0
+      ? Math.min(Math.max(ctx.currentTime - agentTurn.start, 0), agentTurn.duration) / agentTurn.duration
+      : 1;
+    const endMs = offsetMs();
+
+    if (captions.agent.trim()) {
+      captions.agent = cutCaption(captions.agent.trim(), playedFraction);
+      flushCaption('agent', { endMs, interrupted: true });
+    } else if (agentTurn.entry && playedFraction < 1) {
+      const committed = agentTurn.entry;
+      const text = cutCaption(committed.text, playedFraction);
+      setTranscript(text
+        ? transcript.map(e => (e === committed ? { ...e, text, endMs, interrupted: true } : e))
+        : transcript.filter(e => e !== committed));
+    }
+    agentTurn = newAgentTurn();
+  };
+
+  const playAgentAudio = async (ctx: AudioContext, base64Audio: string) => {
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+
+    const pcmBytes = decode(base64Audio);
+    const buffer = await decodeAudioData(pcmBytes, ctx, AGENT_SAMPLE_RATE, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    options.onAgentAudio?.(source, new Int16Array(pcmBytes.buffer), nextStartTime);
+
+    if (agentTurn.complete) agentTurn = newAgentTurn();
+    if (agentTurn.start === null) {
+      agentTurn.start = nextStartTime;
+      const startMs = playbackOffsetMs(ctx, agentTurn.start);
+      options.onAgentReply?.(startMs);
+      timing.agent = { startMs, endMs: Math.max(timing.agent?.endMs ?? startMs, startMs) };
+    }
+    agentTurn.duration += buffer.duration;
+
+    source.onended = () => activeSources.delete(source);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    activeSources.add(source);
+  };
+
+  const receive = async (message: LiveServerMessage) => {
+    const content = message.serverContent;
+    if (!content) return;
+
+    // The native-audio model always answers in audio; in text-only reply
+    // mode the caller reads the output transcription and playback is skipped.
+    const base64Audio = content.modelTurn?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+    const ctx = getContext();
+    if (base64Audio && ctx && options.canHearAgent() && options.playsAudio()) await playAgentAudio(ctx, base64Audio);
+
+    if (content.interrupted) {
+      options.onInterrupted?.();
+      trimAgentCaption();
+      stopPlayback();
+    }
+
+    if (content.inputTranscription) {
+      appendCaption('user', content.inputTranscription.text ?? '');
+      options.onCallerSpeech?.(captions.user);
+    }
+    if (content.outputTranscription && options.canHearAgent()) {
+      appendCaption('agent', content.outputTranscription.text ?? '');
+      options.onAgentSpeech?.();
+    }
+    if (content.turnComplete) {
+      const userEntry = flushCaption('user');
+      // Spoken turns end when their scheduled audio does, not when generation finishes.
+      const endCtx = getContext();
+      const agentEndMs = endCtx && agentTurn.start !== null ? playbackOffsetMs(endCtx, nextStartTime) : undefined;
+      agentTurn.entry = flushCaption('agent', { endMs: agentEndMs });
+      agentTurn.complete = true;
+      options.onTurnComplete?.(userEntry);
+    }
+  };
+
+  return {
+    get transcript() {
+      return transcript;
+    },
+    caption: side => captions[side],
+    receive,
+    appendCaption,
+    flushCaption,
+    commitEntry,
+    interrupt: () => {
+      trimAgentCaption();
+      stopPlayback();
+    },
+    stopPlayback,
+    isPlaying: () => activeSources.size > 0,
+    playoutMs: () => {
+      const ctx = getContext();
+      return ctx ? Math.max(0, nextStartTime - ctx.currentTime) * 1000 : 0;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { createRedactor, Redactor } from './redaction';
+
+// Until a site is loaded every province's formats are checked.
+let redactor: Redactor = createRedactor();
+
+/** Swaps in the redactor for the current site and call, so the caller's name is masked too. */
+export function setLogRedactor(next: Redactor) {
+  redactor = next;
+}
+
+function describe(value: unknown): string {
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (typeof value === 'string') return value;
+  if (typeof Event !== 'undefined' && value instanceof Event) {
+    return 'message' in value && value.message ? `${value.type}: ${String(value.message)}` : value.type;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Console output goes through here so session payloads, transcripts and
+ * error messages never print a caller's details.
+ */
+export function logError(label: string, value: unknown) {
+  console.error(label, redactor.redact(describe(value)));
+}
+
+export function logWarn(message: string, value?: unknown) {
+  if (value === undefined) {
+    console.warn(redactor.redact(message));
+  } else {
+    console.warn(redactor.redact(message), redactor.redact(describe(value)));
+  }
+}
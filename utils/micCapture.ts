@@ -0,0 +1,61 @@
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+
+const WORKLET_URL = '/worklets/pcm-capture-processor.js';
+const WORKLET_NAME = 'pcm-capture-processor';
+
+export interface MicCaptureOptions {
+  /** Duration of each PCM chunk handed to `onChunk`, in milliseconds. */
+  chunkMs?: number;
+  onChunk: (pcm: Int16Array) => void;
+}
+
+export interface MicCapture {
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorklet(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  await ctx.audioWorklet.addModule(WORKLET_URL);
+  loadedContexts.add(ctx);
+}
+
+/**
+ * Streams the microphone through the capture worklet, which resamples from
+ * the context's native rate to 16 kHz Int16 PCM off the main thread.
+ */
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  { chunkMs = 100, onChunk }: MicCaptureOptions,
+): Promise<MicCapture> {
+  await ensureWorklet(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      chunkSamples: Math.max(1, Math.round((CAPTURE_SAMPLE_RATE * chunkMs) / 1000)),
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(e.data));
+  source.connect(node);
+
+  return {
+    source,
+    node,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { Content } from '@google/genai';
+import { TranscriptionEntry } from '../types';
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+/** Exponential backoff with jitter; `attempt` starts at 1. */
+export function getReconnectDelay(attempt: number): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/** WebSocket close codes that mean the call ended on purpose. */
+export function isCleanClose(e: CloseEvent | undefined): boolean {
+  return !e || e.code === 1000;
+}
+
+/**
+ * Rebuilds the conversation for a fresh session when no resumption handle is
+ * available, so the receptionist carries on instead of starting over.
+ */
+export function buildReseedTurns(transcriptions: TranscriptionEntry[]): Content[] {
+  const history: Content[] = transcriptions.map(t => ({
+    role: t.type === 'user' ? 'user' : 'model',
+    parts: [{ text: t.text }],
+  }));
+  history.push({
+    role: 'user',
+    parts: [{
+      text: '[System note: the phone line dropped and has just reconnected. Briefly apologise for the interruption and continue the booking from where it left off. Do not greet the patient again or re-ask details already given.]',
+    }],
+  });
+  return history;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CallRecord } from '../types';
+import { createRedactor, redactCallRecord } from './redaction';
+
+const now = new Date('2026-03-09T12:00:00Z');
+
+describe('createRedactor', () => {
+  const redactor = createRedactor({ province: 'ON', now, keep: ['416-555-0000'] });
+
+  it('masks phone numbers, health cards and spoken emails', () => {
+    expect(redactor.redact('Call me at 416 555 0199.')).toBe('Call me at [PHONE].');
+    expect(redactor.redact('My card is 1234-567-890 AB.')).toBe('My card is [HEALTH CARD].');
+    expect(redactor.redact('It is jane dot doe at example dot com')).toBe('It is [EMAIL]');
+  });
+
+  it('leaves the site phone readable', () => {
+    expect(redactor.redact('The clinic is 416-555-0000.')).toBe('The clinic is 416-555-0000.');
+  });
+
+  it('treats a bare date as a birth date only when its year is over', () => {
+    expect(redactor.redact('I was seen 2019-05-02.')).toBe('I was seen [DATE OF BIRTH].');
+    expect(redactor.redact('Can I come on 2026-03-12?')).toBe('Can I come on 2026-03-12?');
+  });
+
+  it('masks a date after a birth keyword in any year', () => {
+    expect(redactor.redact('Date of birth is 2026-01-15.')).toBe('Date of birth is [DATE OF BIRTH].');
+  });
+
+  it('masks introduced names and later mentions of known names', () => {
+    const named = createRedactor({ now, names: ['Jordan Smith'] });
+    expect(named.redact('My name is Alex Tremblay.')).toBe('My name is [NAME].');
+    expect(named.redact('Is Jordan there?')).toBe('Is [NAME] there?');
+  });
+});
+
+describe('redactCallRecord', () => {
+  const redactor = createRedactor({ now });
+  const record = {
+    transcriptions: [],
+    appointments: [{
+      id: 'a1',
+      slotId: 'Pediatrics|2026-03-12|09:30',
+      patientName: 'Sam Lee',
+      department: 'Pediatrics',
+      date: '2026-03-12',
+      time: '09:30',
+      phone: '416-555-0100',
+      // A newborn: born this year, which the free-text date detector lets through.
+      dateOfBirth: '2026-01-15',
+      createdAt: now,
+    }],
+    changes: [],
+    callbacks: [],
+    escalations: [],
+    draft: {},
+    intakes: [{
+      department: 'Orthopedics',
+      form: {
+        id: 'orthopedics-intake',
+        title: 'Orthopedics intake',
+        fields: [
+          { id: 'imaging_date', label: 'When was it done?', type: 'date' },
+          { id: 'imaging_type', label: 'What kind of imaging?', type: 'choice', options: ['MRI'] },
+        ],
+      },
+      answers: { imaging_date: '2026-02-20', imaging_type: 'MRI' },
+      complete: true,
+      updatedAt: now,
+    }],
+    recording: null,
+    stems: null,
+  } as unknown as CallRecord;
+
+  it('replaces a date of birth from this year', () => {
+    expect(redactCallRecord(record, redactor).appointments[0].dateOfBirth).toBe('[DATE OF BIRTH]');
+  });
+
+  it('masks date answers and keeps choice answers', () => {
+    expect(redactCallRecord(record, redactor).intakes[0].answers).toEqual({ imaging_date: '[DATE]', imaging_type: 'MRI' });
+  });
+});
@@ -0,0 +1,264 @@
+import { Appointment, AppointmentDraft, CallRecord, HospitalProfile, IntakeResponse, PhiKind, Province } from '../types';
+import { getStrings, Strings } from './i18n';
+
+const MASK_KEY = 'canada-care.maskPhi';
+
+/** On by default so a screen left open does not show callers' details. */
+export function getMaskPhi(): boolean {
+  return localStorage.getItem(MASK_KEY) !== 'false';
+}
+
+export function setMaskPhi(mask: boolean) {
+  localStorage.setItem(MASK_KEY, String(mask));
+}
+
+/**
+ * Health card numbers as each province and territory issues them. Spoken
+ * numbers usually come back from transcription grouped by spaces or dashes.
+ */
+export const HEALTH_CARD_PATTERNS: Record<Province, RegExp> = {
+  // 10 digits and an optional one- or two-letter version code.
+  ON: /(?<!\d)\d{4}[\s-]?\d{3}[\s-]?\d{3}(?:[\s-]?[A-Z]{1,2}(?![\p{L}]))?(?!\d)/gu,
+  // RAMQ: four letters from the name and birth date, then eight digits.
+  QC: /(?<![\p{L}\d])[A-Z]{4}[\s-]?\d{4}[\s-]?\d{4}(?!\d)/gu,
+  // Personal Health Number: 10 digits starting with 9.
+  BC: /(?<!\d)9\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  AB: /(?<!\d)\d{5}[\s-]?\d{4}(?!\d)/gu,
+  SK: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  MB: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  NB: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  NS: /(?<!\d)\d{4}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  PE: /(?<!\d)\d{8}(?!\d)/gu,
+  NL: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  YT: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+  NT: /(?<![\p{L}\d])[A-Z]\d{7}(?!\d)/gu,
+  NU: /(?<!\d)\d{3}[\s-]?\d{3}[\s-]?\d{3}(?!\d)/gu,
+};
+
+const EMAIL_PATTERNS = [
+  /[\p{L}\d._%+-]+@[\p{L}\d.-]+\.\p{L}{2,}/gu,
+  // As transcribed from speech: "jane dot doe at example dot com".
+  /(?<![\p{L}\d])[\p{L}\d._-]+(?:\s+(?:dot|point)\s+[\p{L}\d_-]+)*\s+(?:at|arobase)\s+[\p{L}\d-]+(?:\s+(?:dot|point)\s+\p{L}{2,})+/giu,
+];
+
+const PHONE_PATTERN = /(?<!\d)(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g;
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+  + '|janvier|f[ée]vrier|mars|avril|mai|juin|juillet|ao[ûu]t|septembre|octobre|novembre|d[ée]cembre';
+
+const DATE = `(?:\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}|\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}`
+  + `|(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:er)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4})`;
+
+/** A date right after a birth keyword, in whatever form. */
+const DOB_CONTEXT_PATTERN = new RegExp(
+  `(?<![\\p{L}])(?:born(?:\\s+on)?|birth\\s*date|date\\s+of\\s+birth|birthday|d\\.?o\\.?b\\.?|n[ée]e?\\s+le|date\\s+de\\s+naissance)(?:\\s+(?:is|was|est))?[\\s:,]*(${DATE})`,
+  'giu',
+);
+
+/** Any full date; it is only treated as a birth date when its year is already over. */
+const DATE_PATTERN = new RegExp(`(?<![\\p{L}\\d])${DATE}(?![\\p{L}\\d])`, 'giu');
+
+const STREET_TYPES = ['Street', 'St', 'Avenue', 'Ave', 'Road', 'Rd', 'Boulevard', 'Blvd', 'Drive', 'Dr', 'Crescent', 'Cres', 'Court', 'Ct', 'Lane', 'Ln', 'Way', 'Place', 'Pl', 'Terrace', 'Trail', 'Parkway', 'Highway', 'Hwy']
+  .join('|');
+
+// Street names must be capitalised so "at 2 with Dr. Khan" is not read as an address.
+const ADDRESS_PATTERNS = [
+  new RegExp(
+    `(?<![\\p{L}\\d])(?:(?:Apt|Apartment|Unit|Suite)\\.?\\s*\\d+[A-Za-z]?,?\\s+)?\\d{1,6}(?:\\s+\\p{Lu}[\\p{L}'’.-]*){1,3}?\\s+(?:${STREET_TYPES})\\.?(?:\\s+(?:East|West|North|South|[EWNS])(?![\\p{L}]))?(?![\\p{L}])`,
+    'gu',
+  ),
+  /(?<![\p{L}\d])\d{1,6},?\s+(?:rue|avenue|av\.|boulevard|boul\.|chemin|ch\.|route|place|rang|mont[ée]e|all[ée]e)(?:\s+(?:de\s+|du\s+|des\s+|la\s+|le\s+|l['’])?\p{Lu}[\p{L}'’.-]*){1,3}/gu,
+  // Postal codes never use D, F, I, O, Q or U, and W and Z never start one.
+  /(?<![\p{L}\d])[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z][\s-]?\d[ABCEGHJ-NPRSTV-Z]\d(?![\p{L}\d])/giu,
+];
+
+const NAME_WORD = "\\p{Lu}[\\p{L}'’-]+";
+
+/** Callers introducing themselves or someone else by name. */
+const NAME_INTRO_PATTERN = new RegExp(
+  `(?:[Mm]y name is|[Mm]y name's|[Cc]all me|[Pp]atient's name is|[Jj]e m['’]appelle|[Mm]on nom est|[Ll]e nom du patient est|(?:Mr|Mrs|Ms|Miss|Mme|Mlle)\\.?)\\s+(${NAME_WORD}(?:\\s+${NAME_WORD}){0,2})`,
+  'gu',
+);
+
+export interface PhiMatch {
+  kind: PhiKind;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Redactor {
+  find(text: string): PhiMatch[];
+  /** Replaces each match with a bracketed label such as `[PHONE]`. */
+  redact(text: string): string;
+  /** The label that replaces a whole value known to be this kind of PHI. */
+  mask(kind: PhiKind): string;
+}
+
+export interface RedactorOptions {
+  /** Without a province every province's health card formats are checked. */
+  province?: Province;
+  /** Names already known to belong to the caller or patient. */
+  names?: string[];
+  /** The site's own phone, address and staff names, which stay readable. */
+  keep?: string[];
+  strings?: Strings;
+  now?: Date;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\d]/gu, '');
+
+function collectMatches(pattern: RegExp, text: string, kind: PhiKind, group = 0): PhiMatch[] {
+  return [...text.matchAll(pattern)].flatMap(m => {
+    const value = m[group];
+    if (!value) return [];
+    const start = m.index + (group === 0 ? 0 : m[0].lastIndexOf(value));
+    return [{ kind, start, end: start + value.length, text: value }];
+  });
+}
+
+/** Names given in an introduction, for redacting later mentions of them too. */
+export function findIntroducedNames(text: string): string[] {
+  return [...text.matchAll(NAME_INTRO_PATTERN)].map(m => m[1]);
+}
+
+export function createRedactor({ province, names = [], keep = [], strings = getStrings('en-CA'), now = new Date() }: RedactorOptions = {}): Redactor {
+  const keepNormalized = keep.map(normalize).filter(Boolean);
+  const isKept = (value: string) => {
+    const n = normalize(value);
+    return n.length > 0 && keepNormalized.some(k => k.includes(n));
+  };
+
+  const healthCards = province ? [HEALTH_CARD_PATTERNS[province]] : Object.values(HEALTH_CARD_PATTERNS);
+
+  // Full names first so "Jane Doe" is one match rather than two.
+  const nameTerms = [...new Set(names.flatMap(name => {
+    const trimmed = name.trim();
+    return trimmed ? [trimmed, ...trimmed.split(/\s+/).filter(part => part.length > 1)] : [];
+  }))].sort((a, b) => b.length - a.length);
+  const namePattern = nameTerms.length > 0
+    ? new RegExp(`(?<![\\p{L}])(?:${nameTerms.map(escapeRegExp).join('|')})(?![\\p{L}])`, 'giu')
+    : null;
+
+  const isPastYear = (date: string) => {
+    const year = date.match(/(?:19|20)\d{2}/);
+    return !!year && Number(year[0]) < now.getFullYear();
+  };
+
+  // Earlier detectors win where matches overlap.
+  const detectors: ((text: string) => PhiMatch[])[] = [
+    text => EMAIL_PATTERNS.flatMap(p => collectMatches(p, text, 'email')),
+    text => collectMatches(DOB_CONTEXT_PATTERN, text, 'dob', 1),
+    text => collectMatches(PHONE_PATTERN, text, 'phone'),
+    text => healthCards.flatMap(p => collectMatches(p, text, 'healthCard')),
+    text => collectMatches(DATE_PATTERN, text, 'dob').filter(m => isPastYear(m.text)),
+    text => ADDRESS_PATTERNS.flatMap(p => collectMatches(p, text, 'address')),
+    text => collectMatches(NAME_INTRO_PATTERN, text, 'name', 1),
+    text => (namePattern ? collectMatches(namePattern, text, 'name') : []),
+  ];
+
+  const find = (text: string): PhiMatch[] => {
+    const accepted: PhiMatch[] = [];
+    for (const detect of detectors) {
+      for (const match of detect(text)) {
+        if (match.kind !== 'name' && isKept(match.text)) continue;
+        if (accepted.some(a => match.start < a.end && a.start < match.end)) continue;
+        accepted.push(match);
+      }
+    }
+    return accepted.sort((a, b) => a.start - b.start);
+  };
+
+  const mask = (kind: PhiKind) => `[${strings[`phi_${kind}`]}]`;
+
+  return {
+    find,
+    redact(text) {
+      let result = '';
+      let last = 0;
+      for (const match of find(text)) {
+        result += `${text.slice(last, match.start)}${mask(match.kind)}`;
+        last = match.end;
+      }
+      return result + text.slice(last);
+    },
+    mask,
+  };
+}
+
+/** Values that belong to the hospital rather than the caller. */
+export function siteKeepList(profile: HospitalProfile): string[] {
+  return [profile.name, profile.shortName, profile.address, profile.phone, ...profile.clinicians.map(c => c.name)];
+}
+
+/**
+ * A redactor for one call: the site's province rules plus every name the
+ * caller gave, from introductions, the draft and booked appointments.
+ */
+export function createCallRedactor(
+  profile: HospitalProfile,
+  call: Pick<CallRecord, 'transcriptions' | 'draft' | 'appointments' | 'changes' | 'callbacks'> & Partial<Pick<CallRecord, 'intakes'>>,
+  strings?: Strings,
+): Redactor {
+  const keep = siteKeepList(profile);
+  const keepNames = new Set(keep.map(normalize));
+  const names = [
+    ...call.transcriptions.filter(t => t.type === 'user').flatMap(t => findIntroducedNames(t.text)),
+    call.draft.patientName?.value ?? '',
+    ...call.appointments.map(a => a.patientName),
+    ...(call.changes ?? []).map(c => c.before.patientName),
+    ...(call.callbacks ?? []).map(c => c.patientName),
+    ...(call.intakes ?? []).flatMap(i => i.form.fields.filter(f => f.phi).map(f => String(i.answers[f.id] ?? ''))),
+  ].filter(name => name.trim() && !keepNames.has(normalize(name)));
+  return createRedactor({ province: profile.province, names, keep, strings });
+}
+
+export function redactDraft(draft: AppointmentDraft, redactor: Redactor): AppointmentDraft {
+  return Object.fromEntries(
+    Object.entries(draft).map(([field, entry]) => [field, entry && { ...entry, value: redactor.redact(entry.value) }]),
+  );
+}
+
+function redactAppointment(appointment: Appointment, redactor: Redactor): Appointment {
+  return {
+    ...appointment,
+    patientName: redactor.redact(appointment.patientName),
+    phone: redactor.redact(appointment.phone),
+    // Replaced outright: the date detector only trusts years already over, so a newborn's would slip through.
+    ...(appointment.dateOfBirth ? { dateOfBirth: redactor.mask('dob') } : {}),
+  };
+}
+
+/** Text answers may carry names, numbers or dates, and date answers are dates; other types cannot identify anyone. */
+function redactIntakeAnswers(intake: IntakeResponse, redactor: Redactor): IntakeResponse['answers'] {
+  const redactAnswer = (id: string, value: IntakeResponse['answers'][string]) => {
+    const type = intake.form.fields.find(f => f.id === id)?.type;
+    if (typeof value !== 'string') return value;
+    if (type === 'date') return redactor.mask('date');
+    return type === 'text' ? redactor.redact(value) : value;
+  };
+  return Object.fromEntries(Object.entries(intake.answers).map(([id, value]) => [id, redactAnswer(id, value)]));
+}
+
+/** A copy of the record safe to share: text is redacted and audio, which cannot be, is dropped. */
+export function redactCallRecord(record: CallRecord, redactor: Redactor): CallRecord {
+  return {
+    ...record,
+    transcriptions: record.transcriptions.map(t => ({ ...t, text: redactor.redact(t.text) })),
+    appointments: record.appointments.map(a => redactAppointment(a, redactor)),
+    changes: (record.changes ?? []).map(c => ({ ...c, before: redactAppointment(c.before, redactor), after: redactAppointment(c.after, redactor) })),
+    callbacks: (record.callbacks ?? []).map(c => ({
+      ...c,
+      patientName: redactor.redact(c.patientName),
+      phone: redactor.redact(c.phone),
+      reason: redactor.redact(c.reason),
+    })),
+    intakes: (record.intakes ?? []).map(i => ({ ...i, answers: redactIntakeAnswers(i, redactor) })),
+    draft: redactDraft(record.draft ?? {}, redactor),
+    escalations: (record.escalations ?? []).map(e => ({ ...e, detail: redactor.redact(e.detail) })),
+    recording: null,
+    stems: null,
+  };
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalScheduleStore } from './scheduleStore';
+
+const SLOT = 'General|2026-03-10|10:00';
+const OTHER_SLOT = 'General|2026-03-10|10:30';
+const patient = { patientName: 'Jordan Smith', phone: '416-555-0199' };
+
+describe('createLocalScheduleStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-09T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createStore = () => createLocalScheduleStore({ departments: ['General'], timeZone: 'America/Toronto' });
+
+  it('keeps a held slot from everyone but the holder', async () => {
+    const store = createStore();
+    const { holdId } = await store.holdSlot(SLOT);
+
+    expect((await store.checkAvailability('General', '2026-03-10')).map(s => s.id)).not.toContain(SLOT);
+    await expect(store.bookAppointment({ slotId: SLOT, ...patient })).rejects.toThrow('no longer available');
+    await expect(store.bookAppointment({ slotId: SLOT, ...patient, holdId })).resolves.toMatchObject({ slotId: SLOT });
+  });
+
+  it('renews a hold placed again by the same holder', async () => {
+    const store = createStore();
+    const first = await store.holdSlot(SLOT);
+    vi.advanceTimersByTime(60_000);
+    const again = await store.holdSlot(SLOT, first.holdId);
+
+    expect(again.holdId).toBe(first.holdId);
+    expect(again.expiresAt.getTime()).toBeGreaterThan(first.expiresAt.getTime());
+  });
+
+  it('frees the old slot when the holder holds another', async () => {
+    const store = createStore();
+    const { holdId } = await store.holdSlot(SLOT);
+    await store.holdSlot(OTHER_SLOT, holdId);
+
+    const open = (await store.checkAvailability('General', '2026-03-10')).map(s => s.id);
+    expect(open).toContain(SLOT);
+    expect(open).not.toContain(OTHER_SLOT);
+  });
+
+  it('books a slot once when two bookings race', async () => {
+    const store = createStore();
+    const results = await Promise.allSettled([
+      store.bookAppointment({ slotId: SLOT, ...patient }),
+      store.bookAppointment({ slotId: SLOT, ...patient }),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await store.listAppointments()).toHaveLength(1);
+  });
+
+  it('reschedules into a slot the caller holds', async () => {
+    const store = createStore();
+    const booked = await store.bookAppointment({ slotId: SLOT, ...patient });
+    const { holdId } = await store.holdSlot(OTHER_SLOT);
+
+    await expect(store.rescheduleAppointment(booked.id, OTHER_SLOT)).rejects.toThrow('no longer available');
+    await expect(store.rescheduleAppointment(booked.id, OTHER_SLOT, holdId)).resolves.toMatchObject({ slotId: OTHER_SLOT });
+    expect((await store.checkAvailability('General', '2026-03-10')).map(s => s.id)).toContain(SLOT);
+  });
+
+  it('takes today from the site time zone', async () => {
+    // 02:00 UTC on the 10th is still the 9th in Toronto.
+    vi.setSystemTime(new Date('2026-03-10T02:00:00Z'));
+    const store = createStore();
+
+    await expect(store.checkAvailability('General', '2026-03-09')).resolves.not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,238 @@
+import { Appointment, AppointmentSlot, OpeningHours } from '../types';
+import { getAll, isIndexedDbAvailable, put } from './db';
+import { logWarn } from './log';
+
+/**
+ * Provider seam for the hospital's scheduling system. The receptionist only
+ * ever confirms slots returned by the active store.
+ */
+export interface ScheduleStore {
+  checkAvailability(department: string, date: string): Promise<AppointmentSlot[]>;
+  /**
+   * The hold id lets whoever placed the hold book the slot; everyone else sees it as taken until it expires.
+   * Passing an earlier hold id renews that hold, or moves it here and frees its old slot.
+   */
+  holdSlot(slotId: string, holdId?: string): Promise<{ slot: AppointmentSlot; expiresAt: Date; holdId: string }>;
+  bookAppointment(request: { slotId: string; patientName: string; phone: string; dateOfBirth?: string; holdId?: string }): Promise<Appointment>;
+  /** Moves a booking to another open slot, freeing the old one. A held slot needs its hold id. */
+  rescheduleAppointment(appointmentId: string, slotId: string, holdId?: string): Promise<Appointment>;
+  cancelAppointment(appointmentId: string): Promise<Appointment>;
+  /** Includes cancelled bookings. */
+  listAppointments(): Promise<Appointment[]>;
+}
+
+export interface LocalScheduleOptions {
+  departments: string[];
+  openTime?: string;
+  closeTime?: string;
+  /** Per-department, per-date hours; null closes the department that day. Overrides open/close time. */
+  hoursFor?: (department: string, date: string) => OpeningHours | null;
+  slotMinutes?: number;
+  holdMinutes?: number;
+  /** IANA zone the site's "today" is taken in; defaults to the browser's. */
+  timeZone?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export function makeSlotId(department: string, date: string, time: string): string {
+  return `${department}|${date}|${time}`;
+}
+
+export function parseSlotId(slotId: string): AppointmentSlot | null {
+  const [department, date, time] = slotId.split('|');
+  if (!department || !DATE_PATTERN.test(date ?? '') || !TIME_PATTERN.test(time ?? '')) return null;
+  return { id: slotId, department, date, time };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function fromMinutes(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function todayIso(timeZone?: string): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+/**
+ * Default store: generates a daily slot grid per department and persists
+ * bookings in IndexedDB (or memory when IndexedDB is unavailable).
+ * Holds are kept in memory only. Bookings for a slot run one at a time so two
+ * callers cannot both take it.
+ */
+export function createLocalScheduleStore(options: LocalScheduleOptions): ScheduleStore {
+  const {
+    departments,
+    openTime = '09:00',
+    closeTime = '17:00',
+    slotMinutes = 30,
+    holdMinutes = 5,
+    hoursFor,
+    timeZone,
+  } = options;
+
+  const memoryAppointments = new Map<string, Appointment>();
+  const holds = new Map<string, { id: string; expiresAt: number }>();
+  // Slots with a hold, booking or reschedule in flight.
+  const pending = new Set<string>();
+  const persist = isIndexedDbAvailable();
+
+  const resolveDepartment = (name: string): string => {
+    const match = departments.find(d => d.toLowerCase() === name.trim().toLowerCase());
+    if (!match) throw new Error(`Unknown department "${name}". Available: ${departments.join(', ')}.`);
+    return match;
+  };
+
+  const loadAppointments = async (): Promise<Appointment[]> => {
+    if (!persist) return [...memoryAppointments.values()];
+    try {
+      return await getAll<Appointment>('appointments');
+    } catch (e) {
+      logWarn('Appointment store unavailable, using memory.', e);
+      return [...memoryAppointments.values()];
+    }
+  };
+
+  const saveAppointment = async (appointment: Appointment) => {
+    memoryAppointments.set(appointment.id, appointment);
+    if (!persist) return;
+    try {
+      await put('appointments', appointment);
+    } catch (e) {
+      logWarn('Failed to persist appointment, kept in memory.', e);
+    }
+  };
+
+  /** Held by anyone other than `holdId`. */
+  const isHeld = (slotId: string, holdId?: string) => {
+    const hold = holds.get(slotId);
+    if (!hold) return false;
+    if (hold.expiresAt < Date.now()) {
+      holds.delete(slotId);
+      return false;
+    }
+    return hold.id !== holdId;
+  };
+
+  /** Runs `task` with the slot marked pending, so a second hold or booking for it fails fast. */
+  const withSlotLock = async <T>(slotId: string, task: () => Promise<T>): Promise<T> => {
+    if (pending.has(slotId)) throw new Error('That slot is no longer available.');
+    pending.add(slotId);
+    try {
+      return await task();
+    } finally {
+      pending.delete(slotId);
+    }
+  };
+
+  const findBooking = async (appointmentId: string): Promise<Appointment> => {
+    const appointment = (await loadAppointments()).find(a => a.id === appointmentId);
+    if (!appointment) throw new Error(`Unknown appointment "${appointmentId}".`);
+    if (appointment.cancelledAt) throw new Error('That appointment has already been cancelled.');
+    return appointment;
+  };
+
+  const validateSlot = async (slotId: string, holdId?: string): Promise<AppointmentSlot> => {
+    const slot = parseSlotId(slotId);
+    if (!slot) throw new Error(`Invalid slot id "${slotId}".`);
+    const available = await listOpenSlots(slot.department, slot.date, holdId);
+    const match = available.find(s => s.id === slotId);
+    if (!match) throw new Error('That slot is no longer available.');
+    return match;
+  };
+
+  const listOpenSlots = async (department: string, date: string, holdId?: string): Promise<AppointmentSlot[]> => {
+    const dept = resolveDepartment(department);
+    if (!DATE_PATTERN.test(date)) throw new Error('Date must be in YYYY-MM-DD format.');
+    if (date < todayIso(timeZone)) throw new Error('Cannot book a date in the past.');
+
+    const hours = hoursFor ? hoursFor(dept, date) : { open: openTime, close: closeTime };
+    if (!hours) return [];
+
+    const booked = new Set((await loadAppointments()).filter(a => !a.cancelledAt).map(a => a.slotId));
+    const slots: AppointmentSlot[] = [];
+    for (let t = toMinutes(hours.open); t + slotMinutes <= toMinutes(hours.close); t += slotMinutes) {
+      const time = fromMinutes(t);
+      const id = makeSlotId(dept, date, time);
+      if (!booked.has(id) && !isHeld(id, holdId)) slots.push({ id, department: dept, date, time });
+    }
+    return slots;
+  };
+
+  return {
+    checkAvailability: async (department, date) => (await listOpenSlots(department, date)).filter(s => !pending.has(s.id)),
+
+    holdSlot: (slotId, previousHoldId) => withSlotLock(slotId, async () => {
+      const slot = await validateSlot(slotId, previousHoldId);
+      const expiresAt = new Date(Date.now() + holdMinutes * 60_000);
+      const holdId = previousHoldId ?? crypto.randomUUID();
+      // A hold covers one slot at a time.
+      for (const [heldSlotId, hold] of holds) {
+        if (hold.id === holdId) holds.delete(heldSlotId);
+      }
+      holds.set(slotId, { id: holdId, expiresAt: expiresAt.getTime() });
+      return { slot, expiresAt, holdId };
+    }),
+
+    async bookAppointment({ slotId, patientName, phone, dateOfBirth, holdId }) {
+      if (!patientName.trim()) throw new Error('Patient name is required.');
+      if (phone.replace(/\D/g, '').length < 10) throw new Error('A 10-digit phone number is required.');
+      if (dateOfBirth && !DATE_PATTERN.test(dateOfBirth)) throw new Error('Date of birth must be in YYYY-MM-DD format.');
+      return withSlotLock(slotId, async () => {
+        const slot = await validateSlot(slotId, holdId);
+        const appointment: Appointment = {
+          id: crypto.randomUUID(),
+          slotId,
+          patientName: patientName.trim(),
+          department: slot.department,
+          date: slot.date,
+          time: slot.time,
+          phone: phone.trim(),
+          ...(dateOfBirth ? { dateOfBirth } : {}),
+          createdAt: new Date(),
+        };
+        await saveAppointment(appointment);
+        holds.delete(slotId);
+        return appointment;
+      });
+    },
+
+    async rescheduleAppointment(appointmentId, slotId, holdId) {
+      const appointment = await findBooking(appointmentId);
+      if (appointment.slotId === slotId) throw new Error('The appointment is already at that time.');
+      return withSlotLock(slotId, async () => {
+        const slot = await validateSlot(slotId, holdId);
+        const moved: Appointment = { ...appointment, slotId, department: slot.department, date: slot.date, time: slot.time };
+        await saveAppointment(moved);
+        holds.delete(slotId);
+        return moved;
+      });
+    },
+
+    async cancelAppointment(appointmentId) {
+      const cancelled: Appointment = { ...(await findBooking(appointmentId)), cancelledAt: new Date() };
+      await saveAppointment(cancelled);
+      return cancelled;
+    },
+
+    listAppointments: loadAppointments,
+  };
+}
+
+let activeStore: ScheduleStore | null = null;
+
+/** Swap in a store backed by the real scheduling system. */
+export function setScheduleStore(store: ScheduleStore) {
+  activeStore = store;
+}
+
+export function getScheduleStore(fallback: () => ScheduleStore): ScheduleStore {
+  if (!activeStore) activeStore = fallback();
+  return activeStore;
+}
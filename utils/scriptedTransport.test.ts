@@ -0,0 +1,212 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import path from 'path';
+import { FunctionCall, FunctionResponse, LiveServerMessage } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Appointment, AppointmentDraft, ConsentDecision, RedFlagCategory } from '../types';
+import { applyDraftUpdate, DRAFT_FUNCTION_DECLARATION, handleDraftCall } from './appointmentDraft';
+import { CallHold, handleBookingCall } from './bookingTools';
+import { CONSENT_FUNCTION_DECLARATION, handleConsentCall } from './consent';
+import { handleEscalationCall, isEscalationCall } from './escalation';
+import { createLiveTurns } from './liveTurns';
+import { createLocalScheduleStore } from './scheduleStore';
+import { createScriptedTransport, LiveScript, ScriptedSessionLog } from './scriptedTransport';
+
+// The date booking-en asks for, three days after the mocked clock.
+const NOW = new Date('2030-03-11T14:00:00Z');
+const BOOKING_DATE = '2030-03-14';
+
+const loadScript = (name: string): LiveScript =>
+  JSON.parse(readFileSync(path.resolve(__dirname, `../public/scripts/${name}.json`), 'utf8'));
+
+/**
+ * An output context whose clock is the (mocked) wall clock. Sources end on
+ * a timer, as a real context's would once their audio has played.
+ */
+function createFakeAudioContext(): AudioContext {
+  const origin = Date.now();
+  const ctx = {
+    get currentTime() {
+      return (Date.now() - origin) / 1000;
+    },
+    destination: {},
+    createBuffer: (_channels: number, length: number, sampleRate: number) => {
+      const data = new Float32Array(length);
+      return { duration: length / sampleRate, getChannelData: () => data };
+    },
+    createBufferSource: () => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const source = {
+        buffer: null as AudioBuffer | null,
+        onended: null as (() => void) | null,
+        connect: () => {},
+        start: (when: number) => {
+          const endsAt = when + (source.buffer?.duration ?? 0);
+          timer = setTimeout(() => source.onended?.(), (endsAt - ctx.currentTime) * 1000);
+        },
+        stop: () => {
+          if (timer) clearTimeout(timer);
+          source.onended?.();
+        },
+      };
+      return source;
+    },
+  };
+  return ctx as unknown as AudioContext;
+}
+
+/**
+ * Plays a script to the end through the same turn handling App uses, with
+ * the real tool handlers, and returns what the call produced.
+ */
+async function playScript(name: string) {
+  const store = createLocalScheduleStore({ departments: ['General', 'Pediatrics'], timeZone: 'America/Toronto' });
+  const hold: CallHold = {};
+  const appointments: Appointment[] = [];
+  const emergencies: { category: RedFlagCategory; summary: string }[] = [];
+  const transfers: string[] = [];
+  const errors: string[] = [];
+  const replyStartsMs: number[] = [];
+  let consent: ConsentDecision | null = null;
+  let draft: AppointmentDraft = {};
+  let log: ScriptedSessionLog | null = null;
+
+  const ctx = createFakeAudioContext();
+  const startedAt = Date.now();
+  const turns = createLiveTurns({
+    offsetMs: (at = Date.now()) => at - startedAt,
+    getContext: () => ctx,
+    canHearAgent: () => transfers.length === 0,
+    playsAudio: () => true,
+    onCaptions: () => {},
+    onTranscript: () => {},
+    onAgentReply: startMs => replyStartsMs.push(startMs),
+  });
+
+  const answer = (call: FunctionCall): Promise<FunctionResponse> | FunctionResponse => {
+    if (call.name === CONSENT_FUNCTION_DECLARATION.name) return handleConsentCall(call, decision => { consent = decision; });
+    if (call.name === DRAFT_FUNCTION_DECLARATION.name) return handleDraftCall(call, args => { draft = applyDraftUpdate(draft, args); });
+    if (isEscalationCall(call)) {
+      return handleEscalationCall(call, {
+        onEmergency: (category, summary) => {
+          emergencies.push({ category, summary });
+          return 'Call 9-1-1 now.';
+        },
+        onTransfer: reason => transfers.push(reason),
+      });
+    }
+    return handleBookingCall(store, call, hold, appt => appointments.push(appt));
+  };
+
+  const transport = createScriptedTransport(loadScript(name), l => { log = l; });
+  const session = await transport.connect({
+    model: 'scripted',
+    config: {},
+    callbacks: {
+      onmessage: async (message: LiveServerMessage) => {
+        const calls = message.toolCall?.functionCalls;
+        if (calls?.length) {
+          const functionResponses = await Promise.all(calls.map(answer));
+          session.sendToolResponse({ functionResponses });
+        }
+        await turns.receive(message);
+      },
+      onerror: e => errors.push(e.message),
+    },
+  });
+  // The caller speaks once, which is all the scripts wait for.
+  session.sendRealtimeInput({ audio: { data: '', mimeType: 'audio/pcm;rate=16000' } });
+  await vi.runAllTimersAsync();
+  // As when the call ends: keep whatever was being said.
+  turns.flushCaption('user');
+  turns.flushCaption('agent');
+
+  const responses = log!.toolResponses.flatMap(r => (r as { functionResponses: FunctionResponse[] }).functionResponses);
+  return { store, appointments, transcript: turns.transcript, replyStartsMs, emergencies, transfers, errors, consent, draft, responses };
+}
+
+const responseTo = (responses: FunctionResponse[], name: string) => responses.find(r => r.name === name)?.response;
+
+describe('scripted calls', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('books the held slot in booking-en', async () => {
+    const call = await playScript('booking-en');
+    const slotId = `General|${BOOKING_DATE}|10:00`;
+
+    expect(call.consent).toBe('granted');
+    const slots = responseTo(call.responses, 'check_availability')?.output as { slots: { slot_id: string; time: string }[] };
+    expect(slots.slots.map(s => s.time)).toEqual(expect.arrayContaining(['10:00', '10:30']));
+    expect(responseTo(call.responses, 'hold_slot')?.output).toMatchObject({ status: 'held', slot_id: slotId });
+    expect(responseTo(call.responses, 'book_appointment')?.output).toMatchObject({
+      status: 'booked',
+      department: 'General',
+      date: BOOKING_DATE,
+      time: '10:00',
+    });
+
+    const stored = await call.store.listAppointments();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ slotId, patientName: 'Jordan Smith', phone: '416-555-0199' });
+    expect(call.appointments).toEqual(stored);
+    expect(call.draft).toMatchObject({
+      patientName: { value: 'Jordan Smith', status: 'confirmed' },
+      phone: { value: '416-555-0199', status: 'confirmed' },
+    });
+
+    expect(call.transcript.at(0)).toMatchObject({ type: 'agent', text: expect.stringContaining('This call is recorded') });
+    expect(call.transcript).toContainEqual(expect.objectContaining({ type: 'user', text: '416-555-0199.' }));
+    expect(call.transcript.at(-1)).toMatchObject({ type: 'agent', text: "You're all booked. Thank you kindly, and have a great day." });
+    expect(call.transcript.some(e => e.interrupted)).toBe(false);
+  });
+
+  it('times agent turns by their scheduled audio in booking-en', async () => {
+    const call = await playScript('booking-en');
+    const agentTurns = call.transcript.filter(e => e.type === 'agent');
+
+    // One reply start per agent turn, and each turn ends when its audio does
+    // rather than when the model finished sending it.
+    expect(call.replyStartsMs).toHaveLength(agentTurns.length);
+    expect(agentTurns.map(e => e.startMs)).toEqual(call.replyStartsMs);
+    expect(agentTurns[0].startMs).toBe(300);
+    expect(agentTurns[0].endMs - agentTurns[0].startMs).toBeCloseTo(4200, 0);
+  });
+
+  it('alerts staff and transfers in emergency-en', async () => {
+    const call = await playScript('emergency-en');
+
+    expect(call.emergencies).toEqual([{ category: 'cardiac', summary: 'Chest pain since morning, left arm numb' }]);
+    expect(responseTo(call.responses, 'report_emergency')?.output).toMatchObject({ status: 'staff_alerted' });
+    expect(call.transfers).toEqual(['Caller asked for a nurse after reporting chest pain']);
+    expect(responseTo(call.responses, 'transfer_to_staff')?.output).toEqual({ status: 'transferred' });
+    expect(await call.store.listAppointments()).toEqual([]);
+
+    expect(call.transcript).toContainEqual(expect.objectContaining({
+      type: 'user',
+      text: "Hi, I need to see someone. I've had chest pain since this morning and my left arm feels numb.",
+    }));
+    expect(call.transcript).toContainEqual(expect.objectContaining({ type: 'agent', text: expect.stringContaining('call 9-1-1 now') }));
+  });
+
+  it('trims the interrupted greeting to what was played in interrupted-reconnect', async () => {
+    const call = await playScript('interrupted-reconnect');
+    const greeting = 'Hello, thank you for calling Canada Care Hospital. Before we begin, may I tell you about our new';
+
+    expect(call.transcript.map(e => e.type)).toEqual(['agent', 'user']);
+    const [agent, user] = call.transcript;
+    expect(agent.interrupted).toBe(true);
+    expect(greeting.startsWith(agent.text)).toBe(true);
+    expect(agent.text.length).toBeGreaterThan(0);
+    expect(agent.text.length).toBeLessThan(greeting.length);
+    expect(user).toMatchObject({ text: 'Sorry, I just need to book an appointment.' });
+    expect(call.errors).toEqual(['Simulated network failure']);
+    expect(call.responses).toEqual([]);
+  });
+});
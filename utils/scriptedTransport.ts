@@ -0,0 +1,196 @@
+import { LiveCallbacks, LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { encode } from './audio';
+import { LiveSession, LiveTransport } from './liveTransport';
+import { logError } from './log';
+
+export const SCRIPTED_OUTPUT_RATE = 24000;
+const AUDIO_CHUNK_MS = 200;
+
+export type ScriptClientAction = 'audio' | 'clientContent' | 'toolResponse';
+
+export interface ScriptStep {
+  /**
+   * Pause until the client performs this action since the previous step.
+   * `toolResponse` waits for answers to the most recent scripted tool call.
+   */
+  waitFor?: ScriptClientAction;
+  /** Delay before the step runs, after any `waitFor`. */
+  delayMs?: number;
+  /** Synthetic agent speech of this length, streamed as 24 kHz PCM chunks. */
+  agentAudioMs?: number;
+  /** A raw server message, in the same JSON shape the Live API sends. */
+  message?: Omit<LiveServerMessage, 'text' | 'data'>;
+  /** Simulate a transport failure. */
+  error?: string;
+  /** Simulate the server closing the socket. */
+  close?: { code: number; reason?: string };
+}
+
+export interface LiveScript {
+  name: string;
+  steps: ScriptStep[];
+}
+
+/** What the client sent during a scripted session, for assertions and demos. */
+export interface ScriptedSessionLog {
+  config: LiveConnectParameters['config'];
+  realtimeChunks: number;
+  clientContent: unknown[];
+  toolResponses: unknown[];
+  respondedCallIds: Set<string>;
+  closed: boolean;
+}
+
+/**
+ * Generates a quiet, syllable-shaped tone so playback scheduling, the
+ * recorder and interruption handling all see real audio.
+ */
+export function synthesizeSpeechPcm(durationMs: number, sampleRate: number = SCRIPTED_OUTPUT_RATE): Int16Array {
+  const length = Math.round((sampleRate * durationMs) / 1000);
+  const pcm = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * 4 * t);
+    const voice = Math.sin(2 * Math.PI * 180 * t) + 0.4 * Math.sin(2 * Math.PI * 360 * t);
+    pcm[i] = Math.round(voice * envelope * 0.2 * 0x7fff);
+  }
+  return pcm;
+}
+
+function audioMessage(pcm: Int16Array): LiveServerMessage {
+  return {
+    serverContent: {
+      modelTurn: {
+        parts: [{
+          inlineData: {
+            data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+            mimeType: `audio/pcm;rate=${SCRIPTED_OUTPUT_RATE}`,
+          },
+        }],
+      },
+    },
+  } as LiveServerMessage;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Offline stand-in for the Gemini Live API. Replays a script of server
+ * messages against the same callbacks the real session uses.
+ */
+export function createScriptedTransport(script: LiveScript, onSession?: (log: ScriptedSessionLog) => void): LiveTransport {
+  return {
+    connect: async ({ config, callbacks }) => {
+      const log: ScriptedSessionLog = {
+        config,
+        realtimeChunks: 0,
+        clientContent: [],
+        toolResponses: [],
+        respondedCallIds: new Set(),
+        closed: false,
+      };
+      const pending = new Map<ScriptClientAction, number>();
+      const waiters = new Map<ScriptClientAction, () => void>();
+
+      const notify = (action: ScriptClientAction) => {
+        pending.set(action, (pending.get(action) ?? 0) + 1);
+        waiters.get(action)?.();
+      };
+
+      const waitFor = (action: ScriptClientAction) => new Promise<void>(resolve => {
+        const take = () => {
+          const count = pending.get(action) ?? 0;
+          if (count === 0) return false;
+          pending.set(action, count - 1);
+          waiters.delete(action);
+          resolve();
+          return true;
+        };
+        if (!take()) waiters.set(action, () => { take(); });
+      });
+
+      const session: LiveSession = {
+        sendRealtimeInput: (params) => {
+          // The end-of-stream signal after mute or push-to-talk is not caller audio.
+          if (params.audioStreamEnd) return;
+          log.realtimeChunks++;
+          notify('audio');
+        },
+        sendClientContent: (params) => {
+          log.clientContent.push(params);
+          notify('clientContent');
+        },
+        sendToolResponse: (params) => {
+          log.toolResponses.push(params);
+          const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+          responses.forEach(r => r.id && log.respondedCallIds.add(r.id));
+          notify('toolResponse');
+        },
+        close: () => {
+          if (log.closed) return;
+          log.closed = true;
+          callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'client closed' }));
+        },
+      };
+
+      onSession?.(log);
+      setTimeout(() => {
+        callbacks.onopen?.();
+        runScript(script, callbacks, log, waitFor).catch(e => logError("Scripted Session Error:", e));
+      }, 0);
+      return session;
+    },
+  };
+}
+
+async function runScript(
+  script: LiveScript,
+  callbacks: LiveCallbacks,
+  log: ScriptedSessionLog,
+  waitFor: (action: ScriptClientAction) => Promise<void>,
+) {
+  let lastToolCallIds: string[] = [];
+  for (const step of script.steps) {
+    if (step.waitFor === 'toolResponse') {
+      while (!lastToolCallIds.every(id => log.respondedCallIds.has(id))) await waitFor('toolResponse');
+    } else if (step.waitFor) {
+      await waitFor(step.waitFor);
+    }
+    if (step.delayMs) await sleep(step.delayMs);
+    if (log.closed) return;
+
+    if (step.agentAudioMs) {
+      const pcm = synthesizeSpeechPcm(step.agentAudioMs);
+      const chunkSamples = (SCRIPTED_OUTPUT_RATE * AUDIO_CHUNK_MS) / 1000;
+      for (let offset = 0; offset < pcm.length; offset += chunkSamples) {
+        if (log.closed) return;
+        callbacks.onmessage(audioMessage(pcm.slice(offset, offset + chunkSamples)));
+        // Stream faster than real time, like the live service does.
+        await sleep(AUDIO_CHUNK_MS / 4);
+      }
+    }
+    if (step.message) {
+      const calls = step.message.toolCall?.functionCalls;
+      if (calls?.length) lastToolCallIds = calls.map(c => c.id).filter((id): id is string => !!id);
+      callbacks.onmessage(step.message as LiveServerMessage);
+    }
+    if (step.error) {
+      callbacks.onerror?.(new ErrorEvent('error', { message: step.error }));
+    }
+    if (step.close) {
+      log.closed = true;
+      callbacks.onclose?.(new CloseEvent('close', step.close));
+      return;
+    }
+  }
+}
+
+/** Loads a script from `public/scripts/<name>.json`. */
+export async function loadLiveScript(name: string): Promise<LiveScript> {
+  if (!/^[a-z0-9-]+$/.test(name)) throw new Error(`Invalid script name "${name}".`);
+  const response = await fetch(`/scripts/${name}.json`);
+  if (!response.ok) throw new Error(`Script "${name}" returned HTTP ${response.status}.`);
+  const script = await response.json() as LiveScript;
+  if (!Array.isArray(script.steps)) throw new Error(`Script "${name}" has no steps.`);
+  return script;
+}
@@ -0,0 +1,82 @@
+// Only a salted PBKDF2 hash is built into the bundle, never the PIN itself:
+// "pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>", from `npm run hash-staff-pin`.
+const STAFF_PIN_HASH = parsePinHash(process.env.STAFF_PIN_HASH ?? '');
+
+const ATTEMPTS_KEY = 'canada-care.staffPinAttempts';
+
+/** How long an unlock lasts before staff must enter the PIN again. */
+export const STAFF_UNLOCK_MS = 10 * 60_000;
+
+/** Wrong PINs allowed before entry is locked out. */
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 5 * 60_000;
+
+interface PinHash {
+  iterations: number;
+  salt: Uint8Array;
+  hash: string;
+}
+
+interface PinAttempts {
+  failures: number;
+  lockedUntil: number | null;
+}
+
+function parsePinHash(value: string): PinHash | null {
+  const [scheme, iterations, salt, hash] = value.trim().toLowerCase().split('$');
+  if (scheme !== 'pbkdf2-sha256' || !/^\d+$/.test(iterations ?? '') || !/^([0-9a-f]{2})+$/.test(salt ?? '') || !/^[0-9a-f]{64}$/.test(hash ?? '')) {
+    return null;
+  }
+  return { iterations: Number(iterations), salt: new Uint8Array(salt.match(/../g)!.map(b => parseInt(b, 16))), hash };
+}
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+// Kept in localStorage so reloading the page does not reset the count.
+function loadAttempts(): PinAttempts {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ATTEMPTS_KEY) ?? 'null');
+    if (stored && typeof stored.failures === 'number') return { failures: stored.failures, lockedUntil: stored.lockedUntil ?? null };
+  } catch {
+    // Unreadable counts start over.
+  }
+  return { failures: 0, lockedUntil: null };
+}
+
+function saveAttempts(attempts: PinAttempts) {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+export function isStaffPinConfigured(): boolean {
+  return STAFF_PIN_HASH !== null;
+}
+
+/** When PIN entry unlocks again after too many wrong PINs, or null if it is open. */
+export function getStaffPinLockout(now: number = Date.now()): Date | null {
+  const { lockedUntil } = loadAttempts();
+  return lockedUntil !== null && lockedUntil > now ? new Date(lockedUntil) : null;
+}
+
+/** Always false while locked out, without checking the PIN. */
+export async function verifyStaffPin(pin: string): Promise<boolean> {
+  if (!STAFF_PIN_HASH || !pin || getStaffPinLockout()) return false;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: STAFF_PIN_HASH.salt, iterations: STAFF_PIN_HASH.iterations },
+    key,
+    256,
+  );
+  const hex = toHex(bits);
+  let diff = 0;
+  for (let i = 0; i < hex.length; i++) diff |= hex.charCodeAt(i) ^ STAFF_PIN_HASH.hash.charCodeAt(i);
+
+  if (diff === 0) {
+    saveAttempts({ failures: 0, lockedUntil: null });
+    return true;
+  }
+  const failures = loadAttempts().failures + 1;
+  saveAttempts(failures >= MAX_PIN_ATTEMPTS
+    ? { failures: 0, lockedUntil: Date.now() + PIN_LOCKOUT_MS }
+    : { failures, lockedUntil: null });
+  return false;
+}
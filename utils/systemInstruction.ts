@@ -0,0 +1,118 @@
+import { SpeechConfig } from '@google/genai';
+import { HospitalProfile } from '../types';
+import { CHANGE_TOOL_INSTRUCTION } from './appointmentChangeTools';
+import { DRAFT_TOOL_INSTRUCTION } from './appointmentDraft';
+import { BOOKING_TOOL_INSTRUCTION } from './bookingTools';
+import { CALLBACK_TOOL_INSTRUCTION } from './callbackTools';
+import { CONSENT_TOOL_INSTRUCTION } from './consent';
+import { ESCALATION_TOOL_INSTRUCTION } from './escalation';
+import { buildHoursInstruction } from './hours';
+import { buildIntakeInstruction } from './intakeForms';
+import { LanguageMode } from './i18n';
+
+const SPEECH_STYLE: Record<LanguageMode, string> = {
+  'en-CA': `- Speak strictly in Canadian English (en-CA).
+- Sound like a professional hospital receptionist in Canada.
+- Use neutral North American pronunciation with distinct Canadian intonation.
+- Tone: Polite, warm, and helpful.
+- Use Canadian phrasing: "How can I help you today?", "Pardon me?", "One moment, please", "Thank you kindly", "Sorry about that".`,
+  'fr-CA': `- Parlez strictement en français canadien (fr-CA).
+- Vous êtes une réceptionniste d'hôpital professionnelle au Canada.
+- Utilisez une prononciation et une intonation québécoises neutres et soignées.
+- Ton : poli, chaleureux et serviable. Vouvoyez toujours le patient.
+- Utilisez des formules canadiennes : « Comment puis-je vous aider aujourd'hui? », « Pardon? », « Un instant, s'il vous plaît », « Merci beaucoup », « Désolée pour ça ».
+- Dites les heures au format 24 h (« 14 h 30 ») et les dates en français (« le mardi 3 juin »).`,
+  auto: `- Greet the caller bilingually: "Hello, {hospital}, bonjour".
+- From the caller's first reply, continue entirely in their language: Canadian English (en-CA) or Canadian French (fr-CA).
+- In English, use Canadian phrasing: "How can I help you today?", "Pardon me?", "One moment, please".
+- En français, vouvoyez le patient et utilisez des formules canadiennes : « Comment puis-je vous aider? », « Un instant, s'il vous plaît ».
+- Only switch languages if the caller asks to.`,
+};
+
+const VOICE_BY_MODE: Record<LanguageMode, string> = {
+  'en-CA': 'Zephyr',
+  'fr-CA': 'Aoede',
+  auto: 'Zephyr',
+};
+
+/** Prebuilt Live API voices offered in the settings console. */
+export const VOICES = ['Zephyr', 'Aoede', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus'];
+
+export const DEFAULT_PERSONA = 'You are a professional, polite, and calm hospital receptionist for {hospital} in Canada.';
+
+export const DEFAULT_TURN_TAKING = `- HUMAN PACE: Respond naturally and promptly.
+- TURN-TAKING: Wait for approximately 1.0 to 1.5 seconds of silence before responding. Do not wait for 5+ seconds.
+- BE CONCISE: Keep your turns short (1-2 sentences) to maintain a natural "back-and-forth" flow.
+- Do not let the conversation drag; if the patient is silent, offer help or ask if they are still there after a natural pause.`;
+
+/** `voice` overrides the language's default voice. */
+export function getSpeechConfig(mode: LanguageMode, voice: string = ''): SpeechConfig {
+  return {
+    voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || VOICE_BY_MODE[mode] } },
+    ...(mode === 'auto' ? {} : { languageCode: mode }),
+  };
+}
+
+export interface InstructionOptions {
+  /** Ask for recording consent at the start of the call. */
+  recordingConsent?: boolean;
+  /** Take callback requests instead of booking. */
+  afterHours?: boolean;
+  /** Replaces the opening persona line; `{hospital}` is the site name. */
+  persona?: string;
+  /** Replaces the pace and turn-taking guidance. */
+  turnTaking?: string;
+  now?: Date;
+}
+
+/**
+ * Builds the receptionist persona. Only the speech style differs per
+ * language; booking sequence, tools and privacy rules are shared.
+ */
+export function buildSystemInstruction(
+  profile: HospitalProfile,
+  mode: LanguageMode = 'en-CA',
+  {
+    recordingConsent = false,
+    afterHours = false,
+    persona = DEFAULT_PERSONA,
+    turnTaking = DEFAULT_TURN_TAKING,
+    now = new Date(),
+  }: InstructionOptions = {},
+): string {
+  const clinicians = profile.clinicians
+    .map(c => `- ${c.name}, ${c.title} (${c.department})`)
+    .join('\n');
+  const policies = profile.policies.map(p => `- ${p}`).join('\n');
+
+  return `
+${persona.replaceAll('{hospital}', profile.name)}
+
+====================
+SPEECH STYLE (MANDATORY)
+====================
+${SPEECH_STYLE[mode].replace('{hospital}', profile.name)}
+
+====================
+PACE & STABILITY (CRITICAL)
+====================
+${turnTaking}
+
+====================
+HOSPITAL INFORMATION
+====================
+- Address: ${profile.address}
+- Main phone: ${profile.phone}
+- Hours: ${profile.hours}
+- Clinicians:
+${clinicians}
+${buildHoursInstruction(profile, now)}
+====================
+PRIVACY & BOOKING
+====================
+- Sequence: Name -> Department (${profile.departments.join(', ')}) -> Date -> Time -> Phone number -> Date of birth.
+- Summarize and confirm all details clearly before finishing the call.
+- Always pass department names to tools exactly as listed above, whatever language you speak.
+${policies}
+${afterHours ? CALLBACK_TOOL_INSTRUCTION : `${BOOKING_TOOL_INSTRUCTION}${DRAFT_TOOL_INSTRUCTION}\n${CHANGE_TOOL_INSTRUCTION}${buildIntakeInstruction(profile)}`}${ESCALATION_TOOL_INSTRUCTION}${recordingConsent ? CONSENT_TOOL_INSTRUCTION : ''}`;
+}
@@ -4,15 +4,30 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isProduction = mode === 'production';
+
+    // Production bundles must get their credentials from the token broker;
+    // the raw key is only inlined for local development.
+    if (isProduction && env.INLINE_GEMINI_API_KEY === 'true') {
+      throw new Error('Refusing to inline GEMINI_API_KEY into a production bundle. Use the token broker (npm run token-broker).');
+    }
+    const apiKey = isProduction ? undefined : env.GEMINI_API_KEY;
+    const tokenUrl = env.LIVE_TOKEN_URL || (isProduction ? '/api/live-token' : '');
+
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.TOKEN_BROKER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(tokenUrl),
+        'process.env.STAFF_PIN_HASH': JSON.stringify(env.STAFF_PIN_HASH || ''),
       },
       resolve: {
         alias: {